@@ -18,6 +18,8 @@ export interface ServerConfig {
   port: number;
   nodeEnv: 'development' | 'production' | 'test';
   corsOrigin: string;
+  // Reverse proxies in front of the server whose X-Forwarded-For entries are trusted
+  trustProxyHops: number;
 }
 
 export interface SecurityConfig {
@@ -33,12 +35,51 @@ export interface RedisConfig {
   db: number;
 }
 
+export type SlowConsumerPolicy = 'resync' | 'disconnect';
+
+export interface CollaborationConfig {
+  persistDebounceMs: number;
+  persistMaxWaitMs: number;
+  heartbeatIntervalMs: number;
+  presenceTtlMs: number;
+  maxRoomsPerSocket: number;
+  maxFrameBytes: number;
+  maxMessageBytes: number;
+  chunkSizeBytes: number;
+  sendBufferHighWaterBytes: number;
+  sendBufferMaxBytes: number;
+  slowConsumerPolicy: SlowConsumerPolicy;
+  // Quiet period after the last edit before an automatic version is taken (0 disables them)
+  versionIdleMs: number;
+  versionMaxAuto: number;
+}
+
+export type RateLimitAlgorithm = 'sliding-window' | 'token-bucket';
+
+export type RateLimitScope = 'user' | 'document' | 'ip';
+
+export interface RateLimitPolicy {
+  algorithm: RateLimitAlgorithm;
+  // Sliding window: messages allowed per window. Token bucket: bucket size, refilled every window
+  limit: number;
+  windowMs: number;
+  // How long a subject stays blocked once it hits the limit (0 to only wait for the window)
+  blockDurationMs: number;
+}
+
+// Policies for one message type: per user in a document, per document across users and per client IP
+export type RateLimitPolicies = Record<RateLimitScope, RateLimitPolicy | null>;
+
+export type WebSocketRateLimitConfig = Record<string, RateLimitPolicies>;
+
 export interface AppConfig {
   server: ServerConfig;
   database: DatabaseConfig;
   jwt: JWTConfig;
   security: SecurityConfig;
   redis: RedisConfig;
+  collaboration: CollaborationConfig;
+  wsRateLimit: WebSocketRateLimitConfig;
 }
 
 // Helper function to get required environment variable
@@ -75,6 +116,41 @@ function getEnvAsBoolean(key: string, defaultValue: boolean): boolean {
   return value.toLowerCase() === 'true';
 }
 
+// Helper function to get a rate limit policy written as `algorithm:limit:windowMs[:blockDurationMs]`,
+// or null when set to `off`
+function getEnvAsRateLimitPolicy(key: string, defaultValue: string): RateLimitPolicy | null {
+  const value = getOptionalEnv(key, defaultValue).trim();
+  if (value === 'off') return null;
+
+  const [algorithm, limit, windowMs, blockDurationMs = '0'] = value.split(':');
+  const numbers = [limit, windowMs, blockDurationMs].map(part => Number(part));
+  if (
+    (algorithm !== 'sliding-window' && algorithm !== 'token-bucket') ||
+    numbers.some(number => !Number.isInteger(number) || number < 0) ||
+    !numbers[0] ||
+    !numbers[1]
+  ) {
+    throw new Error(
+      `Environment variable ${key} must look like sliding-window:50:1000:5000 or off, got: ${value}`
+    );
+  }
+
+  return {
+    algorithm,
+    limit: numbers[0],
+    windowMs: numbers[1],
+    blockDurationMs: numbers[2] ?? 0,
+  };
+}
+
+// Validate slow consumer policy
+function validateSlowConsumerPolicy(policy: string): SlowConsumerPolicy {
+  if (policy === 'resync' || policy === 'disconnect') {
+    return policy;
+  }
+  throw new Error(`Invalid WS_SLOW_CONSUMER_POLICY: ${policy}. Must be 'resync' or 'disconnect'`);
+}
+
 // Export for potential future use
 export { getEnvAsBoolean };
 
@@ -92,6 +168,7 @@ const config: AppConfig = {
     port: getEnvAsNumber('PORT', 3001),
     nodeEnv: validateNodeEnv(getOptionalEnv('NODE_ENV', 'development')),
     corsOrigin: getOptionalEnv('CORS_ORIGIN', 'http://localhost:3000'),
+    trustProxyHops: getEnvAsNumber('TRUST_PROXY_HOPS', 0),
   },
 
   database: {
@@ -117,6 +194,85 @@ const config: AppConfig = {
     ...(process.env.REDIS_PASSWORD && { password: process.env.REDIS_PASSWORD }),
     db: getEnvAsNumber('REDIS_DB', 0),
   },
+
+  collaboration: {
+    persistDebounceMs: getEnvAsNumber('YJS_PERSIST_DEBOUNCE_MS', 2000),
+    persistMaxWaitMs: getEnvAsNumber('YJS_PERSIST_MAX_WAIT_MS', 10000),
+    heartbeatIntervalMs: getEnvAsNumber('WS_HEARTBEAT_INTERVAL_MS', 30000),
+    presenceTtlMs: getEnvAsNumber('WS_PRESENCE_TTL_MS', 75000),
+    maxRoomsPerSocket: getEnvAsNumber('WS_MAX_ROOMS_PER_SOCKET', 20),
+    maxFrameBytes: getEnvAsNumber('WS_MAX_FRAME_BYTES', 1048576),
+    maxMessageBytes: getEnvAsNumber('WS_MAX_MESSAGE_BYTES', 16777216),
+    chunkSizeBytes: getEnvAsNumber('WS_CHUNK_SIZE_BYTES', 262144),
+    sendBufferHighWaterBytes: getEnvAsNumber('WS_SEND_BUFFER_HIGH_WATER_BYTES', 262144),
+    sendBufferMaxBytes: getEnvAsNumber('WS_SEND_BUFFER_MAX_BYTES', 4194304),
+    slowConsumerPolicy: validateSlowConsumerPolicy(
+      getOptionalEnv('WS_SLOW_CONSUMER_POLICY', 'resync')
+    ),
+    versionIdleMs: getEnvAsNumber('DOCUMENT_VERSION_IDLE_MS', 300000),
+    versionMaxAuto: getEnvAsNumber('DOCUMENT_VERSION_MAX_AUTO', 50),
+  },
+
+  wsRateLimit: {
+    'join-document': {
+      user: null,
+      document: null,
+      ip: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_JOIN_DOCUMENT_IP',
+        'sliding-window:30:60000:60000'
+      ),
+    },
+    'yjs-update': {
+      user: getEnvAsRateLimitPolicy('WS_RATE_LIMIT_YJS_UPDATE_USER', 'sliding-window:50:1000:5000'),
+      document: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_YJS_UPDATE_DOCUMENT',
+        'token-bucket:200:1000'
+      ),
+      ip: getEnvAsRateLimitPolicy('WS_RATE_LIMIT_YJS_UPDATE_IP', 'token-bucket:100:1000:5000'),
+    },
+    // Each request makes the server encode a state diff against the given state vector
+    'sync-step-1': {
+      user: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_SYNC_STEP_1_USER',
+        'sliding-window:10:10000:10000'
+      ),
+      document: null,
+      ip: getEnvAsRateLimitPolicy('WS_RATE_LIMIT_SYNC_STEP_1_IP', 'sliding-window:60:10000:10000'),
+    },
+    'awareness-update': {
+      user: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_AWARENESS_UPDATE_USER',
+        'sliding-window:30:1000:3000'
+      ),
+      document: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_AWARENESS_UPDATE_DOCUMENT',
+        'token-bucket:120:1000'
+      ),
+      ip: getEnvAsRateLimitPolicy('WS_RATE_LIMIT_AWARENESS_UPDATE_IP', 'token-bucket:60:1000:3000'),
+    },
+    'message-chunk': {
+      user: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_MESSAGE_CHUNK_USER',
+        'token-bucket:64:1000:5000'
+      ),
+      document: null,
+      ip: null,
+    },
+    // Counted per connection: each tab pings every 10s
+    ping: {
+      user: getEnvAsRateLimitPolicy('WS_RATE_LIMIT_PING_USER', 'sliding-window:30:60000:60000'),
+      document: null,
+      ip: null,
+    },
+    'state-check': {
+      user: getEnvAsRateLimitPolicy(
+        'WS_RATE_LIMIT_STATE_CHECK_USER',
+        'sliding-window:5:10000:10000'
+      ),
+      document: null,
+      ip: getEnvAsRateLimitPolicy('WS_RATE_LIMIT_STATE_CHECK_IP', 'sliding-window:20:10000:10000'),
+    },
+  },
 };
 
 // Validation function to ensure all required configs are present
@@ -155,4 +311,4 @@ export const isTest = () => config.server.nodeEnv === 'test';
 export default config;
 
 // Export individual config sections for convenience
-export const { server, database, jwt, security, redis } = config;
+export const { server, database, jwt, security, redis, collaboration, wsRateLimit } = config;
@@ -8,7 +8,9 @@ import { createServer } from 'http';
 import config, { validateConfig, server, isDevelopment } from './config';
 import { RedisService, WebSocketService, ActiveSessionsService, RedisPubSubService } from './shared';
 import { QueueWorkerService } from './shared/services/queue-worker.service';
+import { YjsDocumentService } from './shared/services/yjs-document.service';
 import { PrismaService } from './shared/services/prisma.service';
+import { DocumentVersionsService } from './modules/document-versions/document-versions.service';
 
 // Validate configuration on startup
 validateConfig();
@@ -65,6 +67,14 @@ declare global {
 }
 global.webSocketService = webSocketService;
 
+// Save an automatic version once a document edited here goes quiet
+YjsDocumentService.setIdleHandler(documentId => {
+  DocumentVersionsService.createIdleVersion(documentId);
+});
+
+// Only trust X-Forwarded-For when a known number of proxies sits in front of the server
+app.set('trust proxy', server.trustProxyHops);
+
 // Middleware
 app.use(helmet());
 app.use(cors({
@@ -96,7 +106,8 @@ app.get('/health', async (req, res) => {
         connections: webSocketService.getConnectionCount(),
         documents: documentCount,
         rateLimits: {
-          activeUsers: rateLimitStats.length,
+          tracked: rateLimitStats.length,
+          blocked: rateLimitStats.filter(stat => stat.blockedUntil).length,
           config: webSocketService.getRateLimitConfig(),
         },
         sessions: sessionStats,
@@ -132,6 +143,9 @@ process.on('SIGTERM', async () => {
   
   // Stop queue worker
   QueueWorkerService.stop();
+
+  // Persist in-memory Yjs documents before the database connection goes away
+  await YjsDocumentService.persistAll().catch(err => console.warn('Yjs persist error:', err));
   
   await Promise.all([
     PrismaService.disconnect(),
@@ -147,6 +161,9 @@ process.on('SIGINT', async () => {
   
   // Stop queue worker
   QueueWorkerService.stop();
+
+  // Persist in-memory Yjs documents before the database connection goes away
+  await YjsDocumentService.persistAll().catch(err => console.warn('Yjs persist error:', err));
   
   await Promise.all([
     PrismaService.disconnect(),
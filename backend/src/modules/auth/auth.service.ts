@@ -3,7 +3,7 @@ import jwt from 'jsonwebtoken';
 import { PrismaClient } from '@prisma/client';
 import { RegisterRequest, LoginRequest, RegisterResponse, LoginResponse, JwtPayload, AuthUser } from './auth.types';
 import { jwt as jwtConfig, security } from '../../config';
-import { RedisService } from '../../shared';
+import { RedisService, AccessRevocationService } from '../../shared';
 
 const prisma = new PrismaClient();
 
@@ -132,6 +132,7 @@ export class AuthService {
     try {
       const key = `user_session:${userId}`;
       await RedisService.getClient().del(key);
+      AccessRevocationService.publishInBackground({ reason: 'token-revoked', userId });
     } catch (error) {
       console.error('❌ Failed to revoke token:', error);
       throw error;
@@ -0,0 +1,131 @@
+import { Request, Response } from 'express';
+import { DocumentVersionsService } from './document-versions.service';
+import { CreateDocumentVersionRequest } from './document-versions.types';
+import { DocumentsService } from '../documents/documents.service';
+import { ResponseHelper } from '../../shared/utils/response.utils';
+
+export class DocumentVersionsController {
+  /**
+   * List the versions of a document
+   */
+  static async getVersions(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const query = req.query as any;
+
+      const role = await DocumentsService.getUserRole(id!, req.userId!);
+      if (!role) {
+        ResponseHelper.notFound(res, 'Document not found or access denied');
+        return;
+      }
+
+      const result = await DocumentVersionsService.getVersions(id!, {
+        kind: query.kind,
+        limit: query.limit ? parseInt(query.limit, 10) : 20,
+        page: query.page ? parseInt(query.page, 10) : 1,
+      });
+
+      ResponseHelper.paginated(
+        res,
+        result.versions,
+        result.total,
+        { page: result.page, limit: result.limit },
+        'Document versions retrieved successfully'
+      );
+    } catch (error) {
+      console.error('Get document versions error:', error);
+      ResponseHelper.internalError(res, 'Failed to retrieve document versions', error);
+    }
+  }
+
+  /**
+   * Save a named version of the document's current content
+   */
+  static async createVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { name }: CreateDocumentVersionRequest = req.body;
+
+      const role = await DocumentsService.getUserRole(id!, req.userId!);
+      if (!role) {
+        ResponseHelper.notFound(res, 'Document not found or access denied');
+        return;
+      }
+      if (role === 'viewer') {
+        ResponseHelper.forbidden(res, 'Insufficient permissions to save versions of this document');
+        return;
+      }
+
+      const version = await DocumentVersionsService.createVersion(id!, req.userId!, { name });
+
+      ResponseHelper.created(res, version, 'Document version created successfully');
+    } catch (error) {
+      console.error('Create document version error:', error);
+      ResponseHelper.internalError(res, 'Failed to create document version', error);
+    }
+  }
+
+  /**
+   * Get a version with its read-only rendering
+   */
+  static async getVersionById(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, versionId } = req.params;
+
+      const role = await DocumentsService.getUserRole(id!, req.userId!);
+      if (!role) {
+        ResponseHelper.notFound(res, 'Document not found or access denied');
+        return;
+      }
+
+      const version = await DocumentVersionsService.getVersionById(id!, versionId!);
+      if (!version) {
+        ResponseHelper.notFound(res, 'Document version not found');
+        return;
+      }
+
+      ResponseHelper.success(res, version, 'Document version retrieved successfully');
+    } catch (error) {
+      console.error('Get document version error:', error);
+      ResponseHelper.internalError(res, 'Failed to retrieve document version', error);
+    }
+  }
+
+  /**
+   * Restore the document to a version and push the change to connected collaborators
+   */
+  static async restoreVersion(req: Request, res: Response): Promise<void> {
+    try {
+      const { id, versionId } = req.params;
+
+      const role = await DocumentsService.getUserRole(id!, req.userId!);
+      if (!role) {
+        ResponseHelper.notFound(res, 'Document not found or access denied');
+        return;
+      }
+      if (role === 'viewer') {
+        ResponseHelper.forbidden(res, 'Insufficient permissions to restore this document');
+        return;
+      }
+
+      const result = await DocumentVersionsService.restoreVersion(id!, versionId!, req.user!);
+      if (!result) {
+        ResponseHelper.notFound(res, 'Document version not found');
+        return;
+      }
+
+      ResponseHelper.success(res, result, 'Document restored successfully');
+    } catch (error) {
+      console.error('Restore document version error:', error);
+
+      if (error instanceof Error) {
+        if (error.message === 'Version predates collaborative editing and cannot be restored') {
+          ResponseHelper.conflict(res, error.message);
+          return;
+        }
+      }
+
+      ResponseHelper.internalError(res, 'Failed to restore document version', error);
+    }
+  }
+}
@@ -0,0 +1,47 @@
+import { Router } from 'express';
+import { DocumentVersionsController } from './document-versions.controller';
+import { authenticateToken } from '../auth/auth.middleware';
+import { requireAuth } from '../../shared/middleware/auth.middleware';
+import {
+  validateBody,
+  validateParams,
+  validateQuery,
+} from '../../shared/middleware/validation.middleware';
+import {
+  createDocumentVersionSchema,
+  getDocumentVersionsQuerySchema,
+  documentVersionsParamSchema,
+  documentVersionParamSchema,
+} from './document-versions.validation';
+
+// Mounted at /documents/:id/versions
+const router = Router({ mergeParams: true });
+
+// Apply authentication middleware to all routes
+router.use(authenticateToken);
+router.use(requireAuth);
+
+router.get(
+  '/',
+  validateParams(documentVersionsParamSchema),
+  validateQuery(getDocumentVersionsQuerySchema),
+  DocumentVersionsController.getVersions
+);
+router.post(
+  '/',
+  validateParams(documentVersionsParamSchema),
+  validateBody(createDocumentVersionSchema),
+  DocumentVersionsController.createVersion
+);
+router.get(
+  '/:versionId',
+  validateParams(documentVersionParamSchema),
+  DocumentVersionsController.getVersionById
+);
+router.post(
+  '/:versionId/restore',
+  validateParams(documentVersionParamSchema),
+  DocumentVersionsController.restoreVersion
+);
+
+export default router;
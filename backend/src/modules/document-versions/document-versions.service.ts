@@ -0,0 +1,256 @@
+import { DocumentVersion, User } from '@prisma/client';
+import {
+  CreateDocumentVersionRequest,
+  DocumentVersionKind,
+  DocumentVersionResponse,
+  DocumentVersionSummary,
+  GetDocumentVersionsQuery,
+  RestoreDocumentVersionResponse,
+} from './document-versions.types';
+import { AuthUser } from '../auth/auth.types';
+import { PrismaService } from '../../shared/services/prisma.service';
+import { RedisService } from '../../shared/services/redis.service';
+import { YjsDocumentService } from '../../shared/services/yjs-document.service';
+import { collaboration as collaborationConfig } from '../../config';
+
+const prisma = PrismaService.getClient();
+
+const createdBySelect = {
+  select: {
+    id: true,
+    username: true,
+    email: true,
+  },
+} as const;
+
+type VersionWithCreator = DocumentVersion & {
+  createdBy: Pick<User, 'id' | 'username' | 'email'> | null;
+};
+
+export class DocumentVersionsService {
+  private static readonly AUTO_VERSION_NAME = 'Automatic snapshot';
+  private static readonly RESTORE_ORIGIN = 'version-restore';
+
+  /**
+   * List a document's versions, newest first, without their content
+   */
+  static async getVersions(
+    documentId: string,
+    query: GetDocumentVersionsQuery
+  ): Promise<{
+    versions: DocumentVersionSummary[];
+    total: number;
+    page: number;
+    limit: number;
+  }> {
+    const { kind, limit = 20, page = 1 } = query;
+    const where = { documentId, ...(kind && { kind }) };
+
+    const [total, versions] = await Promise.all([
+      prisma.documentVersion.count({ where }),
+      prisma.documentVersion.findMany({
+        where,
+        include: { createdBy: createdBySelect },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+    ]);
+
+    return {
+      versions: versions.map(version => this.toSummary(version)),
+      total,
+      page,
+      limit,
+    };
+  }
+
+  /**
+   * Get a version with its read-only rendering
+   */
+  static async getVersionById(
+    documentId: string,
+    versionId: string
+  ): Promise<DocumentVersionResponse | null> {
+    const version = await prisma.documentVersion.findFirst({
+      where: { id: versionId, documentId },
+      include: { createdBy: createdBySelect },
+    });
+
+    if (!version) {
+      return null;
+    }
+
+    return {
+      ...this.toSummary(version),
+      content: version.content,
+    };
+  }
+
+  /**
+   * Save the document as it is right now under a name
+   */
+  static async createVersion(
+    documentId: string,
+    userId: string,
+    data: CreateDocumentVersionRequest
+  ): Promise<DocumentVersionSummary> {
+    const version = await this.takeSnapshot(documentId, userId, data.name, 'manual');
+    console.log(`🏷️ Saved version "${version.name}" of document ${documentId}`);
+    return this.toSummary(version);
+  }
+
+  /**
+   * Take an automatic version once editing has gone quiet, unless nothing changed since the last one
+   */
+  static async createIdleVersion(documentId: string): Promise<void> {
+    try {
+      const [snapshot, latest] = await Promise.all([
+        YjsDocumentService.getSnapshot(documentId),
+        prisma.documentVersion.findFirst({
+          where: { documentId },
+          orderBy: { createdAt: 'desc' },
+          select: { content: true },
+        }),
+      ]);
+
+      if (!snapshot || snapshot.content === latest?.content) {
+        return;
+      }
+
+      await this.takeSnapshot(documentId, null, this.AUTO_VERSION_NAME, 'auto');
+      await this.pruneAutoVersions(documentId);
+      console.log(`🕒 Saved automatic version of idle document ${documentId}`);
+    } catch (error) {
+      // The document may have been deleted while the idle timer was running
+      console.error(`Failed to save automatic version of document ${documentId}:`, error);
+    }
+  }
+
+  /**
+   * Roll the document back to a version. The current content is saved as a version first, and
+   * the change reaches connected collaborators as an ordinary Yjs update
+   */
+  static async restoreVersion(
+    documentId: string,
+    versionId: string,
+    user: AuthUser
+  ): Promise<RestoreDocumentVersionResponse | null> {
+    const version = await prisma.documentVersion.findFirst({
+      where: { id: versionId, documentId },
+      include: { createdBy: createdBySelect },
+    });
+
+    if (!version) {
+      return null;
+    }
+
+    // Without Yjs state the version can only replace plain content, which a live document would overwrite
+    if (!version.state && (await YjsDocumentService.getSnapshot(documentId))) {
+      throw new Error('Version predates collaborative editing and cannot be restored');
+    }
+
+    const backup = await this.takeSnapshot(
+      documentId,
+      user.id,
+      `Before restoring "${version.name}"`.slice(0, 255),
+      'auto'
+    );
+
+    await prisma.document.update({
+      where: { id: documentId },
+      data: {
+        title: version.title,
+        // With Yjs state the live revision is bumped once the replaced content is persisted
+        ...(!version.state && { content: version.content, liveRevision: { increment: 1 } }),
+      },
+    });
+
+    if (version.state) {
+      const update = await YjsDocumentService.replaceContent(
+        documentId,
+        version.state,
+        this.RESTORE_ORIGIN
+      );
+      await global.webSocketService.broadcastDocumentUpdate(documentId, update, {
+        userId: user.id,
+        username: user.username,
+      });
+    } else {
+      await RedisService.cacheDocumentContent(documentId, version.content, version.title);
+    }
+
+    await this.pruneAutoVersions(documentId);
+    console.log(`⏪ Restored document ${documentId} to version "${version.name}"`);
+
+    return {
+      restored: this.toSummary(version),
+      backup: this.toSummary(backup),
+    };
+  }
+
+  /**
+   * Store the document's current title, rendering and Yjs state as a version
+   */
+  private static async takeSnapshot(
+    documentId: string,
+    createdById: string | null,
+    name: string,
+    kind: DocumentVersionKind
+  ): Promise<VersionWithCreator> {
+    const [document, snapshot] = await Promise.all([
+      prisma.document.findUniqueOrThrow({
+        where: { id: documentId },
+        select: { title: true, content: true },
+      }),
+      YjsDocumentService.getSnapshot(documentId),
+    ]);
+
+    return prisma.documentVersion.create({
+      data: {
+        documentId,
+        createdById,
+        name,
+        kind,
+        title: document.title,
+        content: snapshot ? snapshot.content : document.content,
+        ...(snapshot && { state: Buffer.from(snapshot.state) }),
+      },
+      include: { createdBy: createdBySelect },
+    });
+  }
+
+  /**
+   * Keep only the most recent automatic versions; manual ones are never pruned
+   */
+  private static async pruneAutoVersions(documentId: string): Promise<void> {
+    if (collaborationConfig.versionMaxAuto <= 0) {
+      return;
+    }
+
+    const stale = await prisma.documentVersion.findMany({
+      where: { documentId, kind: 'auto' },
+      orderBy: { createdAt: 'desc' },
+      skip: collaborationConfig.versionMaxAuto,
+      select: { id: true },
+    });
+
+    if (stale.length > 0) {
+      await prisma.documentVersion.deleteMany({
+        where: { id: { in: stale.map(version => version.id) } },
+      });
+    }
+  }
+
+  private static toSummary(version: VersionWithCreator): DocumentVersionSummary {
+    return {
+      id: version.id,
+      documentId: version.documentId,
+      name: version.name,
+      kind: version.kind,
+      title: version.title,
+      createdAt: version.createdAt,
+      createdBy: version.createdBy,
+    };
+  }
+}
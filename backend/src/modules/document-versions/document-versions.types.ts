@@ -0,0 +1,36 @@
+export type DocumentVersionKind = 'manual' | 'auto';
+
+export interface DocumentVersionSummary {
+  id: string;
+  documentId: string;
+  name: string;
+  kind: DocumentVersionKind;
+  title: string;
+  createdAt: Date;
+  createdBy: {
+    id: string;
+    username: string;
+    email: string;
+  } | null;
+}
+
+export interface DocumentVersionResponse extends DocumentVersionSummary {
+  // Read-only HTML rendering of the document as it was when the version was taken
+  content: string;
+}
+
+export interface CreateDocumentVersionRequest {
+  name: string;
+}
+
+export interface GetDocumentVersionsQuery {
+  kind?: DocumentVersionKind | undefined;
+  limit?: number;
+  page?: number;
+}
+
+export interface RestoreDocumentVersionResponse {
+  restored: DocumentVersionSummary;
+  // Snapshot of the content the restore replaced
+  backup: DocumentVersionSummary;
+}
@@ -0,0 +1,46 @@
+import { z } from 'zod';
+import { uuidSchema } from '../../shared/validation/common.validation';
+
+// Document version validation schemas
+export const createDocumentVersionSchema = z.object({
+  name: z
+    .string()
+    .min(1, 'Version name is required')
+    .max(255, 'Version name must be less than 255 characters')
+    .trim(),
+});
+
+// Query parameter validation
+export const getDocumentVersionsQuerySchema = z.object({
+  kind: z.enum(['manual', 'auto']).optional(),
+  limit: z
+    .string()
+    .refine(val => {
+      const num = parseInt(val, 10);
+      return !isNaN(num) && num > 0 && num <= 100;
+    }, 'Limit must be between 1 and 100')
+    .optional(),
+  page: z
+    .string()
+    .refine(val => {
+      const num = parseInt(val, 10);
+      return !isNaN(num) && num > 0;
+    }, 'Page must be a positive number')
+    .optional(),
+});
+
+// URL parameter validation
+export const documentVersionsParamSchema = z.object({
+  id: uuidSchema,
+});
+
+export const documentVersionParamSchema = z.object({
+  id: uuidSchema,
+  versionId: uuidSchema,
+});
+
+// Export types for use in controllers
+export type CreateDocumentVersionInput = z.infer<typeof createDocumentVersionSchema>;
+export type GetDocumentVersionsQuery = z.infer<typeof getDocumentVersionsQuerySchema>;
+export type DocumentVersionsParam = z.infer<typeof documentVersionsParamSchema>;
+export type DocumentVersionParam = z.infer<typeof documentVersionParamSchema>;
@@ -0,0 +1,4 @@
+export * from './document-versions.service';
+export * from './document-versions.controller';
+export * from './document-versions.types';
+export { default as documentVersionsRoutes } from './document-versions.routes';
@@ -4,6 +4,7 @@ import { CreateDocumentRequest, UpdateDocumentRequest, AddCollaboratorRequest }
 import { ResponseHelper } from '../../shared/utils/response.utils';
 import { QueueService } from '../../shared/services/queue.service';
 import { RedisService } from '../../shared/services/redis.service';
+import { matchesIfMatch, toDocumentETag } from '../../shared/utils/etag.utils';
 
 export class DocumentsController {
   /**
@@ -85,6 +86,8 @@ export class DocumentsController {
         return;
       }
 
+      // Express answers a matching If-None-Match with 304 on its own
+      res.setHeader('ETag', toDocumentETag(document.revision, document.liveRevision));
       ResponseHelper.success(res, document, 'Document retrieved successfully');
     } catch (error) {
       console.error('Get document error:', error);
@@ -117,6 +120,32 @@ export class DocumentsController {
         return;
       }
 
+      // The check is repeated by the queued job, since other saves may land before it runs
+      const ifMatch = req.headers['if-match'];
+      if (ifMatch !== undefined && !matchesIfMatch(ifMatch, document.revision)) {
+        res.setHeader('ETag', toDocumentETag(document.revision, document.liveRevision));
+        ResponseHelper.preconditionFailed(
+          res,
+          'Document has been modified since it was retrieved',
+          { revision: document.revision }
+        );
+        return;
+      }
+      const expectedRevision =
+        ifMatch !== undefined && ifMatch.trim() !== '*' ? document.revision : undefined;
+
+      // Collaborative documents take content changes through Yjs only
+      if (
+        content !== undefined &&
+        (await DocumentsService.resolveContentWrite(id!, content)) === null
+      ) {
+        ResponseHelper.conflict(
+          res,
+          'Document content is edited collaboratively; change it through the editor'
+        );
+        return;
+      }
+
       // ✅ CHECK FOR CONTENT CHANGES BEFORE QUEUING
       const changeCheck = await RedisService.hasDocumentContentChanged(
         id!, 
@@ -153,6 +182,7 @@ export class DocumentsController {
           ...(title !== undefined && { title }),
           ...(content !== undefined && { content }),
         },
+        ...(expectedRevision !== undefined && { expectedRevision }),
         metadata: {
           clientId: req.headers['x-client-id'] as string,
           sessionId: req.headers['x-session-id'] as string,
@@ -173,7 +203,9 @@ export class DocumentsController {
         { 
           jobId,
           message: 'Document update queued successfully',
-          status: 'queued'
+          status: 'queued',
+          // The save applies on top of this revision; the stored one is higher once it lands
+          baseRevision: document.revision
         }, 
         'Document update queued successfully'
       );
@@ -204,6 +236,33 @@ export class DocumentsController {
     }
   }
 
+  /**
+   * Get a word-level diff between two revisions of a document
+   */
+  static async getDocumentDiff(req: Request, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const { from, to } = req.query as { from: string; to: string };
+
+      const role = await DocumentsService.getUserRole(id!, req.userId!);
+      if (!role) {
+        ResponseHelper.notFound(res, 'Document not found or access denied');
+        return;
+      }
+
+      const diff = await DocumentsService.getDocumentDiff(id!, from, to);
+      if (!diff) {
+        ResponseHelper.notFound(res, 'Revision not found');
+        return;
+      }
+
+      ResponseHelper.success(res, diff, 'Document diff retrieved successfully');
+    } catch (error) {
+      console.error('Get document diff error:', error);
+      ResponseHelper.internalError(res, 'Failed to retrieve document diff', error);
+    }
+  }
+
   /**
    * Add collaborator to document
    */
@@ -14,6 +14,7 @@ import {
   getDocumentsQuerySchema,
   documentIdParamSchema,
   collaboratorParamSchema,
+  documentDiffQuerySchema,
 } from './documents.validation';
 
 const router = Router();
@@ -33,6 +34,12 @@ router.put(
   DocumentsController.updateDocument
 );
 router.delete('/:id', validateParams(documentIdParamSchema), DocumentsController.deleteDocument);
+router.get(
+  '/:id/diff',
+  validateParams(documentIdParamSchema),
+  validateQuery(documentDiffQuerySchema),
+  DocumentsController.getDocumentDiff
+);
 
 // Collaborator routes
 router.post(
@@ -6,13 +6,31 @@ import {
   DocumentListResponse,
   DocumentCollaborator,
   UserRole,
+  RevisionReference,
+  DiffRevision,
+  DocumentDiffResponse,
 } from './documents.types';
 import { EditHistoryService } from '../edit-history/edit-history.service';
+import { DocumentVersionsService } from '../document-versions/document-versions.service';
 import { PrismaService } from '../../shared/services/prisma.service';
 import { RedisService } from '../../shared/services/redis.service';
+import { AccessRevocationService } from '../../shared/services/access-revocation.service';
+import { YjsDocumentService } from '../../shared/services/yjs-document.service';
+import {
+  countDiffWords,
+  diffWords,
+  hasSameText,
+  htmlToText,
+} from '../../shared/utils/text-diff.utils';
 
 const prisma = PrismaService.getClient();
 
+interface ResolvedRevision {
+  revision: DiffRevision;
+  title: string;
+  content: string;
+}
+
 export class DocumentsService {
   /**
    * Get documents based on filter criteria with pagination
@@ -199,6 +217,8 @@ export class DocumentsService {
       title: result!.title,
       content: result!.content,
       ownerId: result!.ownerId,
+      revision: result!.revision,
+      liveRevision: result!.liveRevision,
       createdAt: result!.createdAt,
       updatedAt: result!.updatedAt,
       owner: result!.owner,
@@ -260,6 +280,8 @@ export class DocumentsService {
       title: document.title,
       content: document.content,
       ownerId: document.ownerId,
+      revision: document.revision,
+      liveRevision: document.liveRevision,
       createdAt: document.createdAt,
       updatedAt: document.updatedAt,
       owner: document.owner,
@@ -284,12 +306,15 @@ export class DocumentsService {
   }
 
   /**
-   * Update document
+   * Update document and record it in the edit history. With an expected revision the update
+   * only applies if no other save landed since, and throws otherwise
    */
   static async updateDocument(
     documentId: string,
     userId: string,
-    data: UpdateDocumentRequest
+    data: UpdateDocumentRequest,
+    expectedRevision?: number,
+    historyMetadata?: Record<string, unknown>
   ): Promise<DocumentResponse | null> {
     // Check if user has edit permission (owner or editor)
     const hasPermission = await this.checkUserPermission(documentId, userId, ['owner', 'editor']);
@@ -300,31 +325,75 @@ export class DocumentsService {
     // Build update data object
     const updateData: any = {};
     if (data.title !== undefined) updateData.title = data.title;
-    if (data.content !== undefined) updateData.content = data.content;
+    if (data.content !== undefined) {
+      const content = await this.resolveContentWrite(documentId, data.content);
+      if (content === null) {
+        throw new Error('Document content is edited collaboratively');
+      }
+      updateData.content = content;
+    }
 
-    const document = await prisma.document.update({
-      where: { id: documentId },
-      data: updateData,
-      include: {
-        owner: {
-          select: {
-            id: true,
-            username: true,
-            email: true,
-          },
+    // Incremented within the UPDATE itself, so concurrent saves never share a revision
+    updateData.revision = { increment: 1 };
+
+    const document = await prisma.$transaction(async tx => {
+      const { count } = await tx.document.updateMany({
+        where: {
+          id: documentId,
+          ...(expectedRevision !== undefined && { revision: expectedRevision }),
         },
-        documentUsers: {
-          include: {
-            user: {
-              select: {
-                id: true,
-                username: true,
-                email: true,
+        data: updateData,
+      });
+
+      if (count === 0) {
+        throw new Error(
+          expectedRevision !== undefined ? 'Document revision has changed' : 'Document not found'
+        );
+      }
+
+      const updated = await tx.document.findUniqueOrThrow({
+        where: { id: documentId },
+        include: {
+          owner: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+          documentUsers: {
+            include: {
+              user: {
+                select: {
+                  id: true,
+                  username: true,
+                  email: true,
+                },
               },
             },
           },
         },
-      },
+      });
+
+      // Written in the same transaction, so every revision has exactly one history entry
+      await EditHistoryService.recordDocumentUpdate(
+        userId,
+        {
+          documentId,
+          title: updated.title,
+          content: updated.content,
+          // Record the content as stored, which for collaborative documents is the Yjs rendering
+          updates: {
+            ...(data.title !== undefined && { title: data.title }),
+            ...(data.content !== undefined && { content: updated.content }),
+          },
+          metadata: historyMetadata,
+          version: updated.revision,
+        },
+        tx
+      );
+
+      return updated;
     });
 
     const result = {
@@ -332,6 +401,8 @@ export class DocumentsService {
       title: document.title,
       content: document.content,
       ownerId: document.ownerId,
+      revision: document.revision,
+      liveRevision: document.liveRevision,
       createdAt: document.createdAt,
       updatedAt: document.updatedAt,
       owner: document.owner,
@@ -342,12 +413,24 @@ export class DocumentsService {
       })),
     };
 
-    // Edit history is now recorded by the queue worker after successful processing
-    // This ensures edit history is only recorded when the update actually succeeds
-
     return result;
   }
 
+  /**
+   * Content to store for a REST content write, or null if the write must be rejected. A document
+   * with Yjs state is rendered from it, so overwriting its content would be undone by the next
+   * persist: only writes carrying the same text (such as an editor save) are accepted, and the
+   * collaborative rendering is kept
+   */
+  static async resolveContentWrite(documentId: string, content: string): Promise<string | null> {
+    const snapshot = await YjsDocumentService.getSnapshot(documentId);
+    if (!snapshot) {
+      return content;
+    }
+
+    return hasSameText(snapshot.content, content) ? snapshot.content : null;
+  }
+
   /**
    * Delete document (only owner can delete)
    */
@@ -366,6 +449,8 @@ export class DocumentsService {
       where: { id: documentId },
     });
 
+    AccessRevocationService.publishInBackground({ reason: 'document-deleted', documentId });
+
     // ✅ INVALIDATE CACHE AFTER DELETION
     RedisService.invalidateDocumentCache(documentId)
       .then(() => {
@@ -378,6 +463,34 @@ export class DocumentsService {
     return true;
   }
 
+  /**
+   * Diff two revisions of a document word by word. Returns null if either revision doesn't exist
+   */
+  static async getDocumentDiff(
+    documentId: string,
+    from: RevisionReference,
+    to: RevisionReference
+  ): Promise<DocumentDiffResponse | null> {
+    const [fromRevision, toRevision] = await Promise.all([
+      this.resolveRevision(documentId, from),
+      this.resolveRevision(documentId, to),
+    ]);
+
+    if (!fromRevision || !toRevision) {
+      return null;
+    }
+
+    const content = diffWords(htmlToText(fromRevision.content), htmlToText(toRevision.content));
+
+    return {
+      from: fromRevision.revision,
+      to: toRevision.revision,
+      title: diffWords(fromRevision.title, toRevision.title),
+      content,
+      stats: countDiffWords(content),
+    };
+  }
+
   /**
    * Add collaborator to document
    */
@@ -498,6 +611,12 @@ export class DocumentsService {
       },
     });
 
+    AccessRevocationService.publishInBackground({
+      reason: 'collaborator-removed',
+      documentId,
+      userId: collaboratorId,
+    });
+
     return true;
   }
 
@@ -509,6 +628,14 @@ export class DocumentsService {
     userId: string,
     requiredRoles: UserRole[]
   ): Promise<boolean> {
+    const role = await this.getUserRole(documentId, userId);
+    return role !== null && requiredRoles.includes(role);
+  }
+
+  /**
+   * Resolve the user's role on a document, or null if they have no access
+   */
+  static async getUserRole(documentId: string, userId: string): Promise<UserRole | null> {
     // Check if document exists
     const document = await prisma.document.findUnique({
       where: { id: documentId },
@@ -516,12 +643,12 @@ export class DocumentsService {
     });
 
     if (!document) {
-      return false;
+      return null;
     }
 
     // First check if user is the direct owner (fallback for existing data)
-    if (document.ownerId === userId && requiredRoles.includes('owner')) {
-      return true;
+    if (document.ownerId === userId) {
+      return 'owner';
     }
 
     // Check user's role in the pivot table (preferred method)
@@ -535,11 +662,66 @@ export class DocumentsService {
       select: { role: true },
     });
 
-    if (!userRole) {
-      return false;
+    return userRole ? userRole.role : null;
+  }
+
+  /**
+   * Look up the title and content of a revision: the live document, a version or a history entry
+   */
+  private static async resolveRevision(
+    documentId: string,
+    reference: RevisionReference
+  ): Promise<ResolvedRevision | null> {
+    if (reference === 'current') {
+      const [document, snapshot] = await Promise.all([
+        prisma.document.findUnique({
+          where: { id: documentId },
+          select: { title: true, content: true, updatedAt: true },
+        }),
+        // Collaborative edits reach Document.content only once the Yjs state is persisted
+        YjsDocumentService.getSnapshot(documentId),
+      ]);
+
+      if (!document) {
+        return null;
+      }
+
+      return {
+        revision: { source: 'current', id: null, label: 'Current', timestamp: document.updatedAt },
+        title: document.title,
+        content: snapshot ? snapshot.content : document.content,
+      };
+    }
+
+    const version = await DocumentVersionsService.getVersionById(documentId, reference);
+    if (version) {
+      return {
+        revision: {
+          source: 'version',
+          id: version.id,
+          label: version.name,
+          timestamp: version.createdAt,
+        },
+        title: version.title,
+        content: version.content,
+      };
+    }
+
+    const entry = await EditHistoryService.getRevision(documentId, reference);
+    if (entry) {
+      return {
+        revision: {
+          source: 'history',
+          id: entry.id,
+          label: `Saved by ${entry.user.username}`,
+          timestamp: entry.timestamp,
+        },
+        title: entry.title,
+        content: entry.content,
+      };
     }
 
-    return requiredRoles.includes(userRole.role);
+    return null;
   }
 
   /**
@@ -1,3 +1,5 @@
+import { DiffSegment, DiffStats } from '../../shared/utils/text-diff.utils';
+
 export type UserRole = 'owner' | 'editor' | 'viewer';
 
 export interface DocumentResponse {
@@ -5,6 +7,9 @@ export interface DocumentResponse {
   title: string;
   content: string;
   ownerId: string;
+  revision: number;
+  // Changes to the content made outside saved updates (live edits, version restores)
+  liveRevision: number;
   createdAt: Date;
   updatedAt: Date;
   owner?: {
@@ -52,4 +57,24 @@ export interface DocumentListResponse {
     email: string;
   };
   collaboratorsCount: number;
-} 
\ No newline at end of file
+}
+
+// `current` or the ID of an edit history entry or document version
+export type RevisionReference = string;
+
+export interface DiffRevision {
+  source: 'current' | 'history' | 'version';
+  id: string | null;
+  // Version name, or who saved a history entry
+  label: string;
+  timestamp: Date;
+}
+
+export interface DocumentDiffResponse {
+  from: DiffRevision;
+  to: DiffRevision;
+  title: DiffSegment[];
+  // Word-level diff of the plain text of the two renderings, one line per block
+  content: DiffSegment[];
+  stats: DiffStats;
+}
@@ -67,6 +67,14 @@ export const getDocumentsQuerySchema = z.object({
     .optional(),
 });
 
+// `current` or the ID of an edit history entry or document version
+const revisionReferenceSchema = z.union([z.literal('current'), uuidSchema]);
+
+export const documentDiffQuerySchema = z.object({
+  from: revisionReferenceSchema,
+  to: revisionReferenceSchema.optional().default('current'),
+});
+
 // URL parameter validation
 export const documentIdParamSchema = z.object({
   id: uuidSchema,
@@ -82,5 +90,6 @@ export type CreateDocumentInput = z.infer<typeof createDocumentSchema>;
 export type UpdateDocumentInput = z.infer<typeof updateDocumentSchema>;
 export type AddCollaboratorInput = z.infer<typeof addCollaboratorSchema>;
 export type GetDocumentsQuery = z.infer<typeof getDocumentsQuerySchema>;
+export type DocumentDiffQuery = z.infer<typeof documentDiffQuerySchema>;
 export type DocumentIdParam = z.infer<typeof documentIdParamSchema>;
 export type CollaboratorParam = z.infer<typeof collaboratorParamSchema>; 
\ No newline at end of file
@@ -2,9 +2,14 @@ import {
   CreateEditHistoryRequest, 
   GetEditHistoryQuery,
   EditHistoryResponse,
-  EditHistoryListResponse
+  EditHistoryListResponse,
+  EditHistoryRevision,
+  DocumentUpdateOperation,
+  RecordDocumentUpdateRequest
 } from './edit-history.types';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../../shared/services/prisma.service';
+import { applyTextDelta, createTextDelta } from '../../shared/utils/text-diff.utils';
 
 const prisma = PrismaService.getClient();
 
@@ -14,6 +19,45 @@ const convertBigIntToNumber = (value: any): number | null => {
   return Number(value);
 };
 
+// How many earlier entries are loaded at a time while reconstructing a revision
+const REVISION_SCAN_BATCH = 20;
+
+// Every this many entries the full content is stored instead of a delta,
+// so reconstructing a revision applies at most CHECKPOINT_INTERVAL - 1 deltas
+const CHECKPOINT_INTERVAL = 50;
+
+// Versions this large are millisecond timestamps, written before entries held document revisions
+const LEGACY_VERSION_MIN = BigInt(1_000_000_000_000);
+
+type HistoryClient = Prisma.TransactionClient;
+
+interface ReconstructedRevision {
+  title: string | undefined;
+  content: string;
+  // Entries after the one holding the full content
+  depth: number;
+}
+
+const asDocumentUpdate = (operation: Prisma.JsonValue): DocumentUpdateOperation | null => {
+  const candidate = operation as Partial<DocumentUpdateOperation> | null;
+  return candidate?.type === 'document_update' && candidate.changes
+    ? (candidate as DocumentUpdateOperation)
+    : null;
+};
+
+// Full content carried by an entry: a checkpoint, or a row written before deltas
+const readFullContent = (operation: DocumentUpdateOperation | null): string | undefined => {
+  if (operation?.checkpoint) return operation.checkpoint.content;
+  const change = operation?.changes.content;
+  return change?.changed && typeof change.value === 'string' ? change.value : undefined;
+};
+
+const readTitle = (operation: DocumentUpdateOperation | null): string | undefined => {
+  if (operation?.checkpoint) return operation.checkpoint.title;
+  const change = operation?.changes.title;
+  return change?.changed && typeof change.value === 'string' ? change.value : undefined;
+};
+
 export class EditHistoryService {
   /**
    * Create a new edit history entry
@@ -273,6 +317,281 @@ export class EditHistoryService {
     };
   }
 
+  /**
+   * Record a queued document save. Content is stored as a delta against the previous entry,
+   * with a full checkpoint every CHECKPOINT_INTERVAL entries. Pass the transaction that applied
+   * the save to commit the entry together with it
+   */
+  static async recordDocumentUpdate(
+    userId: string,
+    data: RecordDocumentUpdateRequest,
+    client?: HistoryClient
+  ): Promise<EditHistoryResponse> {
+    const { documentId, updates } = data;
+
+    const hasAccess = await this.checkUserPermission(documentId, userId, ['owner', 'editor']);
+    if (!hasAccess) {
+      throw new Error('Access denied to document');
+    }
+
+    const record = async (tx: HistoryClient) => {
+      // Serialize saves per document so each delta is taken against the entry right before it
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${documentId}))`;
+
+      const previous = await this.reconstruct(tx, documentId);
+      const isCheckpoint = !previous || previous.depth + 1 >= CHECKPOINT_INTERVAL;
+
+      const operation: DocumentUpdateOperation = {
+        type: 'document_update',
+        changes: {
+          title:
+            updates.title !== undefined
+              ? { changed: true, value: updates.title }
+              : { changed: false },
+          content:
+            updates.content !== undefined
+              ? {
+                  changed: true,
+                  ...(!isCheckpoint && {
+                    delta: createTextDelta(previous.content, updates.content),
+                  }),
+                }
+              : { changed: false },
+        },
+        ...(isCheckpoint && { checkpoint: { title: data.title, content: data.content } }),
+        timestamp: new Date().toISOString(),
+        ...(data.metadata && { metadata: data.metadata }),
+      };
+
+      return tx.editHistory.create({
+        data: {
+          documentId,
+          userId,
+          operation: operation as unknown as Prisma.InputJsonObject,
+          ...(data.version !== undefined && { version: data.version }),
+          // Stamped under the lock rather than at transaction start, so history order matches
+          // the order the deltas were taken in
+          timestamp: new Date(),
+        },
+        include: {
+          user: {
+            select: {
+              id: true,
+              username: true,
+              email: true,
+            },
+          },
+          document: {
+            select: {
+              id: true,
+              title: true,
+            },
+          },
+        },
+      });
+    };
+
+    const editHistory = client ? await record(client) : await prisma.$transaction(record);
+
+    return {
+      id: editHistory.id,
+      documentId: editHistory.documentId,
+      userId: editHistory.userId,
+      operation: editHistory.operation,
+      timestamp: editHistory.timestamp,
+      version: convertBigIntToNumber(editHistory.version),
+      user: editHistory.user,
+      document: editHistory.document,
+    };
+  }
+
+  /**
+   * Reconstruct the title and content a document had right after an edit history entry
+   */
+  static async getRevision(documentId: string, id: string): Promise<EditHistoryRevision | null> {
+    const entry = await prisma.editHistory.findFirst({
+      where: { id, documentId },
+      include: {
+        user: { select: { id: true, username: true } },
+        document: { select: { title: true } },
+      },
+    });
+
+    if (!entry) {
+      return null;
+    }
+
+    const revision = await this.reconstruct(prisma, documentId, entry.id);
+
+    return {
+      id: entry.id,
+      documentId,
+      // A title never changed through history is still the current one
+      title: revision?.title ?? entry.document.title,
+      content: revision?.content ?? '',
+      timestamp: entry.timestamp,
+      user: entry.user,
+    };
+  }
+
+  /**
+   * Clear the timestamp versions of entries written before revisions were recorded, so every
+   * remaining version is a document revision. Returns how many entries were cleared
+   */
+  static async clearLegacyVersions(): Promise<number> {
+    const { count } = await prisma.editHistory.updateMany({
+      where: { version: { gte: LEGACY_VERSION_MIN } },
+      data: { version: null },
+    });
+    return count;
+  }
+
+  /**
+   * Rewrite a document's history recorded with full content copies into deltas and checkpoints.
+   * Entries already in the compact form are left alone, so this can be re-run safely
+   */
+  static async compactDocumentHistory(documentId: string): Promise<number> {
+    let title: string | undefined;
+    let content = '';
+    let sinceCheckpoint: number | null = null;
+    let cursor: string | undefined;
+    let rewritten = 0;
+
+    const document = await prisma.document.findUnique({
+      where: { id: documentId },
+      select: { title: true },
+    });
+
+    for (;;) {
+      const entries = await prisma.editHistory.findMany({
+        where: { documentId },
+        orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+        select: { id: true, operation: true },
+        take: REVISION_SCAN_BATCH,
+        ...(cursor && { cursor: { id: cursor }, skip: 1 }),
+      });
+
+      for (const entry of entries) {
+        const operation = asDocumentUpdate(entry.operation);
+        const previousContent = content;
+        const contentChange = operation?.changes.content;
+        const isLegacy =
+          !!contentChange?.changed &&
+          !operation?.checkpoint &&
+          typeof contentChange.value === 'string';
+
+        title = readTitle(operation) ?? title;
+        const fullContent = readFullContent(operation);
+        if (fullContent !== undefined) {
+          content = fullContent;
+        } else if (contentChange?.delta) {
+          content = applyTextDelta(content, contentChange.delta);
+        }
+
+        if (operation && isLegacy) {
+          const isCheckpoint: boolean =
+            sinceCheckpoint === null || sinceCheckpoint + 1 >= CHECKPOINT_INTERVAL;
+          const compacted: DocumentUpdateOperation = {
+            ...operation,
+            changes: {
+              ...operation.changes,
+              content: isCheckpoint
+                ? { changed: true }
+                : { changed: true, delta: createTextDelta(previousContent, content) },
+            },
+            ...(isCheckpoint && {
+              checkpoint: { title: title ?? document?.title ?? '', content },
+            }),
+          };
+
+          await prisma.editHistory.update({
+            where: { id: entry.id },
+            data: { operation: compacted as unknown as Prisma.InputJsonObject },
+          });
+          rewritten++;
+
+          sinceCheckpoint = isCheckpoint ? 0 : (sinceCheckpoint ?? 0) + 1;
+        } else {
+          sinceCheckpoint = operation?.checkpoint
+            ? 0
+            : sinceCheckpoint === null
+              ? null
+              : sinceCheckpoint + 1;
+        }
+      }
+
+      if (entries.length < REVISION_SCAN_BATCH) {
+        break;
+      }
+      cursor = entries[entries.length - 1]!.id;
+    }
+
+    return rewritten;
+  }
+
+  /**
+   * Rebuild the title and content after an entry (the latest one by default) by walking back
+   * to the nearest entry holding the full content and replaying the deltas recorded since
+   */
+  private static async reconstruct(
+    client: HistoryClient,
+    documentId: string,
+    entryId?: string
+  ): Promise<ReconstructedRevision | null> {
+    const deltas: NonNullable<DocumentUpdateOperation['changes']['content']['delta']>[] = [];
+    let title: string | undefined;
+    let content: string | undefined;
+    let depth = 0;
+    let found = false;
+    let cursor = entryId;
+    let skip = 0;
+
+    while (content === undefined || title === undefined) {
+      const entries = await client.editHistory.findMany({
+        where: { documentId },
+        orderBy: [{ timestamp: 'desc' }, { id: 'desc' }],
+        select: { id: true, operation: true },
+        take: REVISION_SCAN_BATCH,
+        ...(cursor && { cursor: { id: cursor }, skip }),
+      });
+
+      for (const entry of entries) {
+        found = true;
+        const operation = asDocumentUpdate(entry.operation);
+
+        if (content === undefined) {
+          content = readFullContent(operation);
+          if (content === undefined) {
+            const delta = operation?.changes.content.delta;
+            if (delta) deltas.push(delta);
+            depth++;
+          }
+        }
+        title ??= readTitle(operation);
+
+        if (content !== undefined && title !== undefined) {
+          break;
+        }
+      }
+
+      if (entries.length < REVISION_SCAN_BATCH) {
+        break;
+      }
+      cursor = entries[entries.length - 1]!.id;
+      skip = 1;
+    }
+
+    if (!found) {
+      return null;
+    }
+
+    return {
+      title,
+      content: deltas.reduceRight((text, delta) => applyTextDelta(text, delta), content ?? ''),
+      depth,
+    };
+  }
+
   /**
    * Check if user has permission to access a document
    */
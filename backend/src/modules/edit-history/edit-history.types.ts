@@ -1,3 +1,5 @@
+import { TextDeltaOp } from '../../shared/utils/text-diff.utils';
+
 export interface EditHistoryResponse {
   id: string;
   documentId: string;
@@ -50,4 +52,43 @@ export interface GetEditHistoryQuery {
   endDate?: string;
 }
 
- 
\ No newline at end of file
+// Title and content of a document right after an edit history entry was recorded
+export interface EditHistoryRevision {
+  id: string;
+  documentId: string;
+  title: string;
+  content: string;
+  timestamp: Date;
+  user: {
+    id: string;
+    username: string;
+  };
+}
+
+// Operation recorded for each queued document save
+export interface DocumentUpdateOperation {
+  type: 'document_update';
+  changes: {
+    title: { changed: boolean; value?: string };
+    // `delta` against the previous entry's content; rows written before deltas carry the full `value`
+    content: { changed: boolean; delta?: TextDeltaOp[]; value?: string };
+  };
+  // Full revision stored every few entries, so reconstruction never has to walk far back
+  checkpoint?: { title: string; content: string };
+  timestamp: string;
+  metadata?: Record<string, unknown>;
+}
+
+export interface RecordDocumentUpdateRequest {
+  documentId: string;
+  // Title and content of the document after the update was applied
+  title: string;
+  content: string;
+  updates: {
+    title?: string | undefined;
+    content?: string | undefined;
+  };
+  metadata?: Record<string, unknown> | undefined;
+  // Document revision produced by the update
+  version?: number | undefined;
+}
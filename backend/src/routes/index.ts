@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import authRoutes from '../modules/auth/auth.routes';
 import documentsRoutes from '../modules/documents/documents.routes';
+import documentVersionsRoutes from '../modules/document-versions/document-versions.routes';
 import editHistoryRoutes from '../modules/edit-history/edit-history.routes';
 import queueRoutes from '../modules/queue/queue.routes';
 // Import other route modules here
@@ -9,6 +10,7 @@ const router = Router();
 
 // Mount route modules
 router.use('/auth', authRoutes);
+router.use('/documents/:id/versions', documentVersionsRoutes);
 router.use('/documents', documentsRoutes);
 router.use('/edit-history', editHistoryRoutes);
 router.use('/queue', queueRoutes);
@@ -0,0 +1,41 @@
+import { EditHistoryService } from '../modules/edit-history/edit-history.service';
+import { PrismaService } from '../shared/services/prisma.service';
+
+const prisma = PrismaService.getClient();
+
+/**
+ * One-off migration of edit history written by older versions:
+ * - rows that carry a full copy of the document are rewritten into deltas against the
+ *   previous revision, with periodic checkpoints
+ * - `Date.now()` versions are cleared, since they are not document revisions
+ * Safe to run more than once; already migrated rows are left untouched.
+ */
+const main = async (): Promise<void> => {
+  const cleared = await EditHistoryService.clearLegacyVersions();
+  console.log(`🧹 Cleared ${cleared} timestamp versions from legacy edit history entries`);
+
+  const documents = await prisma.editHistory.findMany({
+    distinct: ['documentId'],
+    select: { documentId: true },
+  });
+
+  console.log(`🗜️ Compacting edit history of ${documents.length} documents`);
+
+  let total = 0;
+  for (const { documentId } of documents) {
+    const rewritten = await EditHistoryService.compactDocumentHistory(documentId);
+    if (rewritten > 0) {
+      console.log(`📄 Document ${documentId}: rewrote ${rewritten} entries`);
+    }
+    total += rewritten;
+  }
+
+  console.log(`✅ Edit history migration complete, ${total} entries rewritten`);
+};
+
+main()
+  .catch(error => {
+    console.error('❌ Edit history migration failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => PrismaService.disconnect());
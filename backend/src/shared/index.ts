@@ -19,6 +19,11 @@ export * from './services/active-sessions.service';
 export * from './services/redis-pubsub.service';
 export * from './services/queue.service';
 export * from './services/queue-worker.service';
+export * from './services/yjs-document.service';
+export * from './services/awareness.service';
+export * from './services/divergence-audit.service';
+export * from './services/access-revocation.service';
+export * from './services/room-router.service';
 
 // Config (re-export for convenience)
 export {
@@ -28,6 +33,7 @@ export {
   jwt,
   security,
   redis,
+  collaboration,
   isDevelopment,
   isProduction,
   isTest,
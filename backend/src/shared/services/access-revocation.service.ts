@@ -0,0 +1,57 @@
+import { RedisPubSubService } from './redis-pubsub.service';
+
+export type AccessRevocationReason = 'collaborator-removed' | 'document-deleted' | 'token-revoked';
+
+export interface AccessRevocationEvent {
+  reason: AccessRevocationReason;
+  // Revoke only this user's sockets; omit to revoke every socket on the document
+  userId?: string;
+  // Revoke only this document's room; omit to close all of the user's connections
+  documentId?: string;
+}
+
+/**
+ * WebSocket close codes sent to affected clients, one per revocation reason
+ */
+export const ACCESS_REVOKED_CLOSE_CODES: Record<AccessRevocationReason, number> = {
+  'token-revoked': 4401,
+  'collaborator-removed': 4403,
+  'document-deleted': 4404,
+};
+
+export class AccessRevocationService {
+  private static readonly CHANNEL = 'access-revocations';
+
+  /**
+   * Announce a revocation to every backend instance
+   */
+  static async publish(event: AccessRevocationEvent): Promise<void> {
+    await RedisPubSubService.publish(this.CHANNEL, {
+      type: 'access-revoked',
+      data: event,
+    });
+    console.log(
+      `🚫 Published access revocation (${event.reason}) for user ${event.userId ?? '*'} on document ${event.documentId ?? '*'}`
+    );
+  }
+
+  /**
+   * Publish without failing the caller; the revocation itself is already stored
+   */
+  static publishInBackground(event: AccessRevocationEvent): void {
+    this.publish(event).catch(error => {
+      console.error(`Failed to publish access revocation (${event.reason}):`, error);
+    });
+  }
+
+  /**
+   * Receive revocations published by any instance
+   */
+  static async subscribe(handler: (event: AccessRevocationEvent) => void): Promise<void> {
+    await RedisPubSubService.subscribe(this.CHANNEL, message => {
+      if (message.type === 'access-revoked') {
+        handler(message.data as AccessRevocationEvent);
+      }
+    });
+  }
+}
@@ -1,11 +1,22 @@
 import { RedisService } from './redis.service';
+import { collaboration as collaborationConfig } from '../../config';
 
 export interface ActiveSession {
   userId: string;
   username: string;
   socketId: string;
   cursorPosition?: string; // JSON string of cursor position
-  lastActive: number; // timestamp
+  lastActive: number; // timestamp of the last heartbeat
+}
+
+/**
+ * A user's presence in a document, aggregated across their sockets (tabs, devices)
+ */
+export interface ActiveUser {
+  userId: string;
+  username: string;
+  socketIds: string[];
+  lastActive: number;
 }
 
 export interface CursorPosition {
@@ -20,7 +31,7 @@ export class ActiveSessionsService {
   private static readonly SESSION_TTL = 300; // 5 minutes in seconds
 
   /**
-   * Add or update a user session for a document
+   * Add or update a socket's session for a document
    */
   static async addSession(
     documentId: string,
@@ -45,14 +56,17 @@ export class ActiveSessionsService {
         sessionData.cursorPosition = JSON.stringify(cursorPosition);
       }
 
-      // Add user to the document's session hash
-      // doc://   key: session:documentId
-      await client.hSet(key, userId, JSON.stringify(sessionData));
+      // Add the socket to the document's session hash; one field per socket so
+      // several tabs of the same user don't overwrite each other
+      // doc://   key: session:documentId   field: socketId
+      await client.hSet(key, socketId, JSON.stringify(sessionData));
 
       // Set TTL for the entire hash
       await client.expire(key, this.SESSION_TTL);
 
-      console.log(`👤 Session added: ${username} (${userId}) to document ${documentId}`);
+      console.log(
+        `👤 Session added: ${username} (${userId}) socket ${socketId} to document ${documentId}`
+      );
     } catch (error) {
       console.error('Failed to add session:', error);
       throw error;
@@ -60,15 +74,15 @@ export class ActiveSessionsService {
   }
 
   /**
-   * Remove a user session from a document
+   * Remove a socket's session from a document
    */
-  static async removeSession(documentId: string, userId: string): Promise<void> {
+  static async removeSession(documentId: string, socketId: string): Promise<void> {
     try {
       const client = RedisService.getClient();
       const key = `${this.SESSION_PREFIX}:${documentId}`;
 
       // Get user info before removing for logging
-      const sessionData = await client.hGet(key, userId);
+      const sessionData = await client.hGet(key, socketId);
       let username = 'unknown';
 
       if (sessionData) {
@@ -80,10 +94,10 @@ export class ActiveSessionsService {
         }
       }
 
-      // Remove user from the document's session hash
-      await client.hDel(key, userId);
+      // Remove the socket from the document's session hash
+      await client.hDel(key, socketId);
 
-      console.log(`👋 Session removed: ${username} (${userId}) from document ${documentId}`);
+      console.log(`👋 Session removed: ${username} socket ${socketId} from document ${documentId}`);
     } catch (error) {
       console.error('Failed to remove session:', error);
       throw error;
@@ -91,11 +105,11 @@ export class ActiveSessionsService {
   }
 
   /**
-   * Update cursor position for a user session
+   * Update cursor position for a socket session
    */
   static async updateCursorPosition(
     documentId: string,
-    userId: string,
+    socketId: string,
     cursorPosition: CursorPosition
   ): Promise<void> {
     try {
@@ -103,9 +117,9 @@ export class ActiveSessionsService {
       const key = `${this.SESSION_PREFIX}:${documentId}`;
 
       // Get existing session data
-      const sessionData = await client.hGet(key, userId);
+      const sessionData = await client.hGet(key, socketId);
       if (!sessionData) {
-        console.warn(`Session not found for user ${userId} in document ${documentId}`);
+        console.warn(`Session not found for socket ${socketId} in document ${documentId}`);
         return;
       }
 
@@ -114,7 +128,7 @@ export class ActiveSessionsService {
       session.lastActive = Date.now();
 
       // Update the session
-      await client.hSet(key, userId, JSON.stringify(session));
+      await client.hSet(key, socketId, JSON.stringify(session));
 
       // Refresh TTL
       await client.expire(key, this.SESSION_TTL);
@@ -125,15 +139,15 @@ export class ActiveSessionsService {
   }
 
   /**
-   * Update last active timestamp for a user session
+   * Update last active timestamp for a socket session
    */
-  static async updateLastActive(documentId: string, userId: string): Promise<void> {
+  static async updateLastActive(documentId: string, socketId: string): Promise<void> {
     try {
       const client = RedisService.getClient();
       const key = `${this.SESSION_PREFIX}:${documentId}`;
 
       // Get existing session data
-      const sessionData = await client.hGet(key, userId);
+      const sessionData = await client.hGet(key, socketId);
       if (!sessionData) {
         return; // Session might have expired
       }
@@ -142,7 +156,7 @@ export class ActiveSessionsService {
       session.lastActive = Date.now();
 
       // Update the session
-      await client.hSet(key, userId, JSON.stringify(session));
+      await client.hSet(key, socketId, JSON.stringify(session));
 
       // Refresh TTL
       await client.expire(key, this.SESSION_TTL);
@@ -153,7 +167,7 @@ export class ActiveSessionsService {
   }
 
   /**
-   * Get all active sessions for a document
+   * Get all active socket sessions for a document
    */
   static async getDocumentSessions(documentId: string): Promise<ActiveSession[]> {
     try {
@@ -164,18 +178,16 @@ export class ActiveSessionsService {
       const sessionsHash = await client.hGetAll(key);
       const sessions: ActiveSession[] = [];
 
-      for (const [userId, sessionData] of Object.entries(sessionsHash)) {
+      for (const [socketId, sessionData] of Object.entries(sessionsHash)) {
         try {
           const session = JSON.parse(sessionData);
-          sessions.push({
-            userId,
-            username: session.username,
-            socketId: session.socketId,
-            cursorPosition: session.cursorPosition,
-            lastActive: session.lastActive,
-          });
+          if (this.isExpired(session)) {
+            continue;
+          }
+
+          sessions.push(this.toActiveSession(session));
         } catch (error) {
-          console.error(`Failed to parse session data for user ${userId}:`, error);
+          console.error(`Failed to parse session data for socket ${socketId}:`, error);
           // Skip invalid session data
         }
       }
@@ -188,46 +200,88 @@ export class ActiveSessionsService {
   }
 
   /**
-   * Get a specific user's session for a document
+   * Get the users present in a document, one entry per user however many sockets they have
+   */
+  static async getDocumentUsers(documentId: string): Promise<ActiveUser[]> {
+    const sessions = await this.getDocumentSessions(documentId);
+    const users = new Map<string, ActiveUser>();
+
+    for (const session of sessions) {
+      const user = users.get(session.userId);
+      if (user) {
+        user.socketIds.push(session.socketId);
+        user.lastActive = Math.max(user.lastActive, session.lastActive);
+      } else {
+        users.set(session.userId, {
+          userId: session.userId,
+          username: session.username,
+          socketIds: [session.socketId],
+          lastActive: session.lastActive,
+        });
+      }
+    }
+
+    return Array.from(users.values());
+  }
+
+  /**
+   * Remove sessions whose last heartbeat is older than the presence TTL,
+   * returning only the ones this call actually removed
    */
-  static async getUserSession(documentId: string, userId: string): Promise<ActiveSession | null> {
+  static async pruneExpiredSessions(documentId: string): Promise<ActiveSession[]> {
     try {
       const client = RedisService.getClient();
       const key = `${this.SESSION_PREFIX}:${documentId}`;
 
-      const sessionData = await client.hGet(key, userId);
-      if (!sessionData) {
-        return null;
+      const sessionsHash = await client.hGetAll(key);
+      const removed: ActiveSession[] = [];
+
+      for (const [socketId, sessionData] of Object.entries(sessionsHash)) {
+        let session: any;
+        try {
+          session = JSON.parse(sessionData);
+        } catch (error) {
+          session = null;
+        }
+
+        if (session && !this.isExpired(session)) {
+          continue;
+        }
+
+        // Another instance may prune the same entry; only the one that deletes it reports it
+        const deleted = await client.hDel(key, socketId);
+        if (deleted === 1 && session) {
+          removed.push(this.toActiveSession(session));
+        }
       }
 
-      const session = JSON.parse(sessionData);
-      return {
-        userId,
-        username: session.username,
-        socketId: session.socketId,
-        cursorPosition: session.cursorPosition,
-        lastActive: session.lastActive,
-      };
+      if (removed.length > 0) {
+        console.log(
+          `⏱️ Expired ${removed.length} sessions without heartbeat from document ${documentId}`
+        );
+      }
+
+      return removed;
     } catch (error) {
-      console.error('Failed to get user session:', error);
-      return null;
+      console.error('Failed to prune expired sessions:', error);
+      return [];
     }
   }
 
   /**
-   * Check if a user has an active session for a document
+   * Get all of a user's socket sessions for a document
    */
-  static async hasActiveSession(documentId: string, userId: string): Promise<boolean> {
-    try {
-      const client = RedisService.getClient();
-      const key = `${this.SESSION_PREFIX}:${documentId}`;
+  static async getUserSessions(documentId: string, userId: string): Promise<ActiveSession[]> {
+    const sessions = await this.getDocumentSessions(documentId);
+    return sessions.filter(session => session.userId === userId);
+  }
 
-      const exists = await client.hExists(key, userId);
-      return exists === 1;
-    } catch (error) {
-      console.error('Failed to check active session:', error);
-      return false;
-    }
+  /**
+   * Check if a user has an active session for a document on any socket
+   */
+  static async hasActiveSession(documentId: string, userId: string): Promise<boolean> {
+    const sessions = await this.getUserSessions(documentId, userId);
+    return sessions.length > 0;
   }
 
   /**
@@ -292,28 +346,28 @@ export class ActiveSessionsService {
       const pattern = `${this.SESSION_PREFIX}:*`;
       const keys = await client.keys(pattern);
       const now = Date.now();
-      const staleThreshold = now - this.SESSION_TTL * 1000;
+      const staleThreshold = now - collaborationConfig.presenceTtlMs;
 
       for (const key of keys) {
         const sessionsHash = await client.hGetAll(key);
-        const staleUserIds: string[] = [];
+        const staleSocketIds: string[] = [];
 
-        for (const [userId, sessionData] of Object.entries(sessionsHash)) {
+        for (const [socketId, sessionData] of Object.entries(sessionsHash)) {
           try {
             const session = JSON.parse(sessionData);
             if (session.lastActive < staleThreshold) {
-              staleUserIds.push(userId);
+              staleSocketIds.push(socketId);
             }
           } catch (error) {
             // Invalid session data, mark for removal
-            staleUserIds.push(userId);
+            staleSocketIds.push(socketId);
           }
         }
 
         // Remove stale sessions
-        if (staleUserIds.length > 0) {
-          await client.hDel(key, staleUserIds);
-          console.log(`🧹 Cleaned up ${staleUserIds.length} stale sessions from ${key}`);
+        if (staleSocketIds.length > 0) {
+          await client.hDel(key, staleSocketIds);
+          console.log(`🧹 Cleaned up ${staleSocketIds.length} stale sessions from ${key}`);
         }
 
         // If no sessions remain, delete the entire key
@@ -355,6 +409,23 @@ export class ActiveSessionsService {
     }
   }
 
+  private static toActiveSession(session: any): ActiveSession {
+    return {
+      userId: session.userId,
+      username: session.username,
+      socketId: session.socketId,
+      cursorPosition: session.cursorPosition,
+      lastActive: Number(session.lastActive),
+    };
+  }
+
+  /**
+   * A session is expired once its last heartbeat is older than the presence TTL
+   */
+  private static isExpired(session: { lastActive?: number | string }): boolean {
+    return Number(session.lastActive) < Date.now() - collaborationConfig.presenceTtlMs;
+  }
+
   /**
    * Remove all sessions for a document (when document is deleted)
    */
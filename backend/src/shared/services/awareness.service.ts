@@ -0,0 +1,135 @@
+import * as Y from 'yjs';
+import {
+  Awareness,
+  applyAwarenessUpdate,
+  encodeAwarenessUpdate,
+  removeAwarenessStates,
+} from 'y-protocols/awareness';
+
+interface AwarenessRoom {
+  doc: Y.Doc;
+  awareness: Awareness;
+  // Awareness client IDs announced by each local socket
+  socketClients: Map<string, Set<number>>;
+}
+
+interface AwarenessChanges {
+  added: number[];
+  updated: number[];
+  removed: number[];
+}
+
+/**
+ * Keeps the awareness (cursor and selection) state of every room held by this instance,
+ * so late joiners get a snapshot and a dead socket's cursor can be removed for everyone.
+ */
+export class AwarenessService {
+  private static readonly REMOTE_ORIGIN = 'remote';
+  private static rooms: Map<string, AwarenessRoom> = new Map();
+
+  /**
+   * Apply an awareness update sent by a local socket, or relayed from another instance
+   * when no socket ID is given
+   */
+  static applyUpdate(documentId: string, update: Uint8Array, socketId?: string): void {
+    const room = this.getRoom(documentId);
+
+    try {
+      applyAwarenessUpdate(room.awareness, update, socketId ?? this.REMOTE_ORIGIN);
+    } catch (error) {
+      console.error(`Failed to apply awareness update for document ${documentId}:`, error);
+    }
+  }
+
+  /**
+   * Encode every known awareness state of a room, or null when there is none
+   */
+  static getSnapshot(documentId: string): Uint8Array | null {
+    const room = this.rooms.get(documentId);
+    if (!room || room.awareness.getStates().size === 0) {
+      return null;
+    }
+
+    return encodeAwarenessUpdate(room.awareness, Array.from(room.awareness.getStates().keys()));
+  }
+
+  /**
+   * Drop the awareness states announced by a socket, returning the update that
+   * removes them from other peers (null when the socket announced none)
+   */
+  static removeSocket(documentId: string, socketId: string): Uint8Array | null {
+    const room = this.rooms.get(documentId);
+    const clientIds = room?.socketClients.get(socketId);
+    if (!room || !clientIds) {
+      return null;
+    }
+
+    room.socketClients.delete(socketId);
+    const removed = Array.from(clientIds).filter(clientId =>
+      room.awareness.getStates().has(clientId)
+    );
+    if (removed.length === 0) {
+      return null;
+    }
+
+    removeAwarenessStates(room.awareness, removed, socketId);
+    return encodeAwarenessUpdate(room.awareness, removed);
+  }
+
+  /**
+   * Forget a room once this instance has no sockets left in it
+   */
+  static releaseRoom(documentId: string): void {
+    const room = this.rooms.get(documentId);
+    if (!room) {
+      return;
+    }
+
+    room.awareness.destroy();
+    room.doc.destroy();
+    this.rooms.delete(documentId);
+  }
+
+  private static getRoom(documentId: string): AwarenessRoom {
+    const existing = this.rooms.get(documentId);
+    if (existing) {
+      return existing;
+    }
+
+    // Awareness only needs a doc for its client ID; the room's content lives in YjsDocumentService
+    const doc = new Y.Doc();
+    const awareness = new Awareness(doc);
+    // The server has no cursor of its own
+    awareness.setLocalState(null);
+
+    const room: AwarenessRoom = { doc, awareness, socketClients: new Map() };
+    awareness.on('update', (changes: AwarenessChanges, origin: unknown) =>
+      this.trackClients(room, changes, origin)
+    );
+
+    this.rooms.set(documentId, room);
+    return room;
+  }
+
+  private static trackClients(room: AwarenessRoom, changes: AwarenessChanges, origin: unknown) {
+    for (const clientId of changes.removed) {
+      for (const clientIds of room.socketClients.values()) {
+        clientIds.delete(clientId);
+      }
+    }
+
+    const announced = [...changes.added, ...changes.updated];
+    if (typeof origin !== 'string' || origin === this.REMOTE_ORIGIN || announced.length === 0) {
+      return;
+    }
+
+    let clientIds = room.socketClients.get(origin);
+    if (!clientIds) {
+      clientIds = new Set();
+      room.socketClients.set(origin, clientIds);
+    }
+    for (const clientId of announced) {
+      clientIds.add(clientId);
+    }
+  }
+}
@@ -0,0 +1,48 @@
+import { PrismaService } from './prisma.service';
+import { DivergenceReason } from './yjs-document.service';
+
+const prisma = PrismaService.getClient();
+
+export interface DivergenceEntry {
+  documentId: string;
+  userId: string;
+  reason: DivergenceReason;
+  clientStateVector: Uint8Array;
+  serverStateVector: Uint8Array;
+  clientChecksum: string;
+  serverChecksum: string;
+}
+
+export class DivergenceAuditService {
+  /**
+   * Record a client/server divergence found by the periodic state check
+   */
+  static async record(entry: DivergenceEntry): Promise<void> {
+    console.warn(
+      `⚠️ Divergence on document ${entry.documentId} for user ${entry.userId}: ${entry.reason} (client ${entry.clientChecksum}, server ${entry.serverChecksum})`
+    );
+
+    await prisma.documentDivergence.create({
+      data: {
+        documentId: entry.documentId,
+        userId: entry.userId,
+        reason: entry.reason,
+        clientStateVector: Buffer.from(entry.clientStateVector),
+        serverStateVector: Buffer.from(entry.serverStateVector),
+        clientChecksum: entry.clientChecksum,
+        serverChecksum: entry.serverChecksum,
+      },
+    });
+  }
+
+  /**
+   * Get the most recent divergences recorded for a document
+   */
+  static async getDocumentDivergences(documentId: string, limit: number = 50) {
+    return prisma.documentDivergence.findMany({
+      where: { documentId },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+}
@@ -1,6 +1,5 @@
 import { QueueService, QueueJob, DocumentUpdateJob } from './queue.service';
 import { DocumentsService } from '../../modules/documents/documents.service';
-import { EditHistoryService } from '../../modules/edit-history/edit-history.service';
 import { RedisService } from './redis.service';
 
 export class QueueWorkerService {
@@ -84,10 +83,20 @@ export class QueueWorkerService {
    * Handle document update job
    */
   private static async handleDocumentUpdateJob(job: QueueJob<DocumentUpdateJob>): Promise<void> {
-    const { documentId, userId, updates, metadata } = job.data;
+    const { documentId, userId, updates, expectedRevision, metadata } = job.data;
 
     try {
-      const updatedDocument = await DocumentsService.updateDocument(documentId, userId, updates);
+      const updatedDocument = await DocumentsService.updateDocument(
+        documentId,
+        userId,
+        updates,
+        expectedRevision,
+        {
+          ...metadata,
+          jobId: job.id,
+          processedAt: new Date().toISOString(),
+        }
+      );
 
       if (!updatedDocument) {
         throw new Error('Document update failed - document not found or insufficient permissions');
@@ -99,31 +108,24 @@ export class QueueWorkerService {
         updatedDocument.title
       );
 
-      const operation = {
-        type: 'document_update',
-        changes: {
-          title: updates.title !== undefined ? { changed: true, value: updates.title } : { changed: false },
-          content: updates.content !== undefined ? { changed: true, value: updates.content } : { changed: false },
-        },
-        timestamp: new Date().toISOString(),
-        metadata: {
-          ...metadata,
-          jobId: job.id,
-          processedAt: new Date().toISOString(),
-          cachedAt: new Date().toISOString(),
-        },
-      };
-
-      await EditHistoryService.createEditHistory(userId, {
-        documentId,
-        operation,
-        version: Date.now(),
-      });
-
       await QueueService.completeJob(job.id);
 
       console.log(`✅ Successfully processed document update job ${job.id} and cached content`);
     } catch (error) {
+      // Another save landed after the request's If-Match was checked, or the content was edited
+      // live since the request was checked; retrying cannot help
+      if (
+        error instanceof Error &&
+        (error.message === 'Document revision has changed' ||
+          error.message === 'Document content is edited collaboratively')
+      ) {
+        console.warn(
+          `⚠️ Dropped document update job ${job.id} for document ${documentId}: ${error.message}`
+        );
+        await QueueService.failJob(job.id, error.message, job, false);
+        return;
+      }
+
       console.error(`❌ Failed to process document update job ${job.id}:`, error);
       throw error;
     }
@@ -19,6 +19,8 @@ export interface DocumentUpdateJob {
     title?: string;
     content?: string;
   };
+  // Revision the client's If-Match pinned; the update is dropped if the document moved on
+  expectedRevision?: number;
   metadata?: {
     clientId?: string;
     sessionId?: string;
@@ -119,9 +121,14 @@ export class QueueService {
   }
 
   /**
-   * Mark a job as failed and handle retries
+   * Mark a job as failed and handle retries. Failures that would recur on every attempt skip them
    */
-  static async failJob(jobId: string, error: string, job?: QueueJob): Promise<void> {
+  static async failJob(
+    jobId: string,
+    error: string,
+    job?: QueueJob,
+    retry: boolean = true
+  ): Promise<void> {
     const client = RedisService.getClient();
     
     if (!job) {
@@ -143,7 +150,7 @@ export class QueueService {
     // Increment attempts
     job.attempts = (job.attempts || 0) + 1;
 
-    if (job.attempts < (job.maxAttempts || this.DEFAULT_MAX_ATTEMPTS)) {
+    if (retry && job.attempts < (job.maxAttempts || this.DEFAULT_MAX_ATTEMPTS)) {
       // Retry the job
       job.scheduledFor = new Date(Date.now() + (job.delay || this.DEFAULT_RETRY_DELAY));
       
@@ -1,73 +1,160 @@
+import { createHash, randomUUID } from 'crypto';
 import { RedisService } from './redis.service';
-
-export interface RateLimitConfig {
-  maxMessages: number;
-  windowMs: number;
-  blockDurationMs: number;
-}
+import { RateLimitPolicies, RateLimitPolicy, RateLimitScope } from '../../config';
 
 export interface RateLimitResult {
   isLimited: boolean;
   remaining: number;
   resetTime: number;
   blockedUntil?: number;
+  // Scope whose limit was hit
+  scope?: RateLimitScope;
 }
 
+// Who a message is counted against in each scope, e.g. `${userId}:${documentId}` for `user`
+export type RateLimitSubjects = Partial<Record<RateLimitScope, string>>;
+
+export interface RateLimitStat {
+  scope: RateLimitScope;
+  messageType: string;
+  subject: string;
+  blockedUntil?: number;
+}
+
+/**
+ * Checks every scope and, only when none is limited, records the message, all in one atomic call.
+ * KEYS come in pairs (state key, block key) per scope; ARGV is now, a unique member for sliding
+ * windows, then algorithm, limit, windowMs and blockDurationMs per scope.
+ * Returns { limited, scope index, remaining, resetTime, blockedUntil }.
+ */
+const CONSUME_SCRIPT = `
+local now = tonumber(ARGV[1])
+local member = ARGV[2]
+local scopes = #KEYS / 2
+local tokens = {}
+local remaining = -1
+local resetTime = now
+
+for i = 1, scopes do
+  local key = KEYS[i * 2 - 1]
+  local blockKey = KEYS[i * 2]
+  local base = 2 + (i - 1) * 4
+  local algorithm = ARGV[base + 1]
+  local limit = tonumber(ARGV[base + 2])
+  local windowMs = tonumber(ARGV[base + 3])
+  local blockMs = tonumber(ARGV[base + 4])
+
+  local blockedUntil = tonumber(redis.call('GET', blockKey))
+  if blockedUntil and blockedUntil > now then
+    return { 1, i, 0, blockedUntil, blockedUntil }
+  end
+
+  local left
+  local resetAt
+  if algorithm == 'sliding-window' then
+    redis.call('ZREMRANGEBYSCORE', key, '-inf', now - windowMs)
+    left = limit - redis.call('ZCARD', key)
+    local oldest = redis.call('ZRANGE', key, 0, 0, 'WITHSCORES')
+    resetAt = (tonumber(oldest[2]) or now) + windowMs
+  else
+    local bucket = redis.call('HMGET', key, 'tokens', 'ts')
+    local available = tonumber(bucket[1]) or limit
+    local refilledAt = tonumber(bucket[2]) or now
+    available = math.min(limit, available + (now - refilledAt) * limit / windowMs)
+    tokens[i] = available
+    left = math.floor(available)
+    resetAt = now + math.ceil(math.max(0, 1 - available) * windowMs / limit)
+  end
+
+  if left < 1 then
+    if blockMs > 0 then
+      local blockUntil = now + blockMs
+      redis.call('SET', blockKey, blockUntil, 'PX', blockMs)
+      return { 1, i, 0, blockUntil, blockUntil }
+    end
+    return { 1, i, 0, resetAt, 0 }
+  end
+
+  if remaining < 0 or left - 1 < remaining then
+    remaining = left - 1
+    resetTime = resetAt
+  end
+end
+
+for i = 1, scopes do
+  local key = KEYS[i * 2 - 1]
+  local base = 2 + (i - 1) * 4
+  local windowMs = tonumber(ARGV[base + 3])
+  if ARGV[base + 1] == 'sliding-window' then
+    redis.call('ZADD', key, now, member)
+  else
+    redis.call('HSET', key, 'tokens', tokens[i] - 1, 'ts', now)
+  end
+  redis.call('PEXPIRE', key, windowMs)
+end
+
+return { 0, 0, math.max(remaining, 0), resetTime, 0 }
+`;
+
 export class RateLimitService {
   private static readonly RATE_LIMIT_PREFIX = 'rate_limit';
   private static readonly BLOCK_PREFIX = 'rate_limit_block';
+  private static readonly SCOPES: RateLimitScope[] = ['user', 'document', 'ip'];
+  private static readonly CONSUME_SCRIPT_SHA = createHash('sha1')
+    .update(CONSUME_SCRIPT)
+    .digest('hex');
 
   /**
-   * Check if a user is rate limited for a specific message type
+   * Count a message against every scope that has both a policy and a subject,
+   * unless one of them is already at its limit
    */
-  static async isRateLimited(
-    userId: string,
+  static async consume(
     messageType: string,
-    config: RateLimitConfig
+    subjects: RateLimitSubjects,
+    policies: RateLimitPolicies
   ): Promise<RateLimitResult> {
-    try {
-      const client = RedisService.getClient();
-      const now = Date.now();
-      
-      const blockKey = `${this.BLOCK_PREFIX}:${userId}:${messageType}`;
-      const blockedUntil = await client.get(blockKey);
-      
-      if (blockedUntil) {
-        const blockTime = parseInt(blockedUntil);
-        if (now < blockTime) {
-          return {
-            isLimited: true,
-            remaining: 0,
-            resetTime: blockTime,
-            blockedUntil: blockTime,
-          };
-        } else {
-          await client.del(blockKey);
-        }
+    const checks: { scope: RateLimitScope; subject: string; policy: RateLimitPolicy }[] = [];
+    for (const scope of this.SCOPES) {
+      const subject = subjects[scope];
+      const policy = policies[scope];
+      if (subject && policy) {
+        checks.push({ scope, subject, policy });
       }
+    }
 
-      const key = `${this.RATE_LIMIT_PREFIX}:${userId}:${messageType}`;
-      const windowStart = now - config.windowMs;
-      
-      const requests = await client.zRangeByScore(key, windowStart, '+inf');
-      const currentCount = requests.length;
-
-      if (currentCount >= config.maxMessages) {
-        const blockUntil = now + config.blockDurationMs;
-        await client.setEx(blockKey, Math.ceil(config.blockDurationMs / 1000), blockUntil.toString());
-        
-        return {
-          isLimited: true,
-          remaining: 0,
-          resetTime: windowStart + config.windowMs,
-          blockedUntil: blockUntil,
-        };
-      }
+    const now = Date.now();
+    if (checks.length === 0) {
+      return { isLimited: false, remaining: Infinity, resetTime: now };
+    }
+
+    try {
+      const keys = checks.flatMap(({ scope, subject }) => [
+        this.getKey(this.RATE_LIMIT_PREFIX, scope, messageType, subject),
+        this.getKey(this.BLOCK_PREFIX, scope, messageType, subject),
+      ]);
+      const args = [
+        now.toString(),
+        `${now}:${randomUUID()}`,
+        ...checks.flatMap(({ policy }) => [
+          policy.algorithm,
+          policy.limit.toString(),
+          policy.windowMs.toString(),
+          policy.blockDurationMs.toString(),
+        ]),
+      ];
+
+      const [limited, scopeIndex, remaining, resetTime, blockedUntil] = (await this.runScript(
+        keys,
+        args
+      )) as number[];
+      const limitedScope = scopeIndex ? checks[scopeIndex - 1]?.scope : undefined;
 
       return {
-        isLimited: false,
-        remaining: config.maxMessages - currentCount,
-        resetTime: windowStart + config.windowMs,
+        isLimited: limited === 1,
+        remaining: remaining ?? 0,
+        resetTime: resetTime ?? now,
+        ...(blockedUntil && { blockedUntil }),
+        ...(limitedScope && { scope: limitedScope }),
       };
     } catch (error) {
       console.error('Rate limit check failed:', error);
@@ -79,43 +166,23 @@ export class RateLimitService {
     }
   }
 
-  /**
-   * Increment rate limit counter for a user and message type
-   */
-  static async incrementRateLimit(userId: string, messageType: string): Promise<void> {
-    try {
-      const client = RedisService.getClient();
-      const now = Date.now();
-      const key = `${this.RATE_LIMIT_PREFIX}:${userId}:${messageType}`;
-      
-      await client.zAdd(key, { score: now, value: now.toString() });
-      
-      await client.expire(key, 7200); // 2 hours
-    } catch (error) {
-      console.error('Rate limit increment failed:', error);
-    }
-  }
-
   /**
    * Reset rate limits for a specific user
    */
   static async resetUserRateLimits(userId: string): Promise<void> {
     try {
       const client = RedisService.getClient();
-      
-      const pattern = `${this.RATE_LIMIT_PREFIX}:${userId}:*`;
-      const keys = await client.keys(pattern);
-      
-      const blockPattern = `${this.BLOCK_PREFIX}:${userId}:*`;
-      const blockKeys = await client.keys(blockPattern);
-      
+
+      const keys: string[] = [];
+      for (const prefix of [this.RATE_LIMIT_PREFIX, this.BLOCK_PREFIX]) {
+        keys.push(...(await client.keys(`${prefix}:user:*:${userId}`)));
+        keys.push(...(await client.keys(`${prefix}:user:*:${userId}:*`)));
+      }
+
       if (keys.length > 0) {
         await client.del(keys);
       }
-      if (blockKeys.length > 0) {
-        await client.del(blockKeys);
-      }
-      
+
       console.log(`🔄 Rate limits reset for user: ${userId}`);
     } catch (error) {
       console.error('Failed to reset rate limits:', error);
@@ -125,57 +192,38 @@ export class RateLimitService {
   /**
    * Get rate limit statistics for monitoring
    */
-  static async getRateLimitStats(): Promise<{
-    userId: string;
-    messageType: string;
-    count: number;
-    blockedUntil?: number;
-  }[]> {
+  static async getRateLimitStats(): Promise<RateLimitStat[]> {
     try {
       const client = RedisService.getClient();
-      const stats: { userId: string; messageType: string; count: number; blockedUntil?: number }[] = [];
-      
+
       const rateLimitKeys = await client.keys(`${this.RATE_LIMIT_PREFIX}:*`);
       const blockKeys = await client.keys(`${this.BLOCK_PREFIX}:*`);
-      
+
       const blockMap = new Map<string, number>();
       for (const blockKey of blockKeys) {
         const blockedUntil = await client.get(blockKey);
         if (blockedUntil) {
-          const parts = blockKey.split(':');
-          const userId = parts[2];
-          const messageType = parts[3];
-          const key = `${userId}:${messageType}`;
-          blockMap.set(key, parseInt(blockedUntil));
+          blockMap.set(blockKey.slice(this.BLOCK_PREFIX.length + 1), parseInt(blockedUntil));
         }
       }
-      
+
+      const stats: RateLimitStat[] = [];
       for (const key of rateLimitKeys) {
-        const parts = key.split(':');
-        const userId = parts[2];
-        const messageType = parts[3];
-        
-        if (!userId || !messageType) {
+        const id = key.slice(this.RATE_LIMIT_PREFIX.length + 1);
+        const [scope, messageType, ...subject] = id.split(':');
+        if (!this.SCOPES.includes(scope as RateLimitScope) || !messageType) {
           continue;
         }
-        
-        const count = await client.zCard(key);
-        
-        const stat: { userId: string; messageType: string; count: number; blockedUntil?: number } = {
-          userId,
+
+        const blockedUntil = blockMap.get(id);
+        stats.push({
+          scope: scope as RateLimitScope,
           messageType,
-          count,
-        };
-        
-        const blockKey = `${userId}:${messageType}`;
-        const blockedUntil = blockMap.get(blockKey);
-        if (blockedUntil) {
-          stat.blockedUntil = blockedUntil;
-        }
-        
-        stats.push(stat);
+          subject: subject.join(':'),
+          ...(blockedUntil && { blockedUntil }),
+        });
       }
-      
+
       return stats;
     } catch (error) {
       console.error('Failed to get rate limit stats:', error);
@@ -184,38 +232,26 @@ export class RateLimitService {
   }
 
   /**
-   * Clean up expired rate limit data
+   * Run the consume script by hash, loading it on first use
    */
-  static async cleanupExpiredData(): Promise<void> {
+  private static async runScript(keys: string[], args: string[]): Promise<unknown> {
+    const client = RedisService.getClient();
     try {
-      const client = RedisService.getClient();
-      const now = Date.now();
-      
-      const rateLimitKeys = await client.keys(`${this.RATE_LIMIT_PREFIX}:*`);
-      
-      for (const key of rateLimitKeys) {
-        const cutoff = now - 3600000; // 1 hour
-        await client.zRemRangeByScore(key, '-inf', cutoff);
-
-        const count = await client.zCard(key);
-        if (count === 0) {
-          await client.del(key);
-        }
-      }
-      
+      return await client.evalSha(this.CONSUME_SCRIPT_SHA, { keys, arguments: args });
     } catch (error) {
-      console.error('Failed to cleanup expired rate limit data:', error);
+      if (!(error instanceof Error) || !error.message.startsWith('NOSCRIPT')) {
+        throw error;
+      }
+      return await client.eval(CONSUME_SCRIPT, { keys, arguments: args });
     }
   }
 
-  /**
-   * Get current rate limit status for a user
-   */
-  static async getUserRateLimitStatus(
-    userId: string,
+  private static getKey(
+    prefix: string,
+    scope: RateLimitScope,
     messageType: string,
-    config: RateLimitConfig
-  ): Promise<RateLimitResult> {
-    return this.isRateLimited(userId, messageType, config);
+    subject: string
+  ): string {
+    return `${prefix}:${scope}:${messageType}:${subject}`;
   }
-} 
\ No newline at end of file
+}
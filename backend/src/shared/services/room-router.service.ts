@@ -0,0 +1,122 @@
+import { randomUUID } from 'crypto';
+import { RedisPubSubService, PubSubMessage } from './redis-pubsub.service';
+
+export interface RoomMessageOrigin {
+  instanceId: string;
+  socketId?: string;
+}
+
+export interface RoomMessage extends PubSubMessage {
+  origin?: RoomMessageOrigin;
+  // Socket that must not receive the message (usually the sender)
+  excludeSocketId?: string;
+}
+
+export interface RoomPublishOptions {
+  originSocketId?: string;
+  excludeSocketId?: string;
+}
+
+export type RoomDeliveryHandler = (documentId: string, message: RoomMessage) => void;
+
+/**
+ * Fans room messages out across backend instances so each socket receives them exactly once:
+ * the publishing instance delivers to its own sockets directly and ignores its own echo from
+ * Redis, every other instance delivers the Redis copy to its sockets.
+ */
+export class RoomRouterService {
+  static readonly INSTANCE_ID = randomUUID();
+  private static readonly CHANNEL_PREFIX = 'channel:';
+  private static deliveryHandler: RoomDeliveryHandler | null = null;
+  private static subscribedRooms: Set<string> = new Set();
+
+  /**
+   * Register how messages reach the sockets held by this instance
+   */
+  static setDeliveryHandler(handler: RoomDeliveryHandler): void {
+    this.deliveryHandler = handler;
+  }
+
+  /**
+   * Start receiving a room's messages from other instances
+   */
+  static async joinRoom(documentId: string): Promise<void> {
+    if (this.subscribedRooms.has(documentId)) {
+      return;
+    }
+
+    this.subscribedRooms.add(documentId);
+    try {
+      await RedisPubSubService.subscribe(
+        this.getChannel(documentId),
+        this.handlePubSubMessage.bind(this)
+      );
+    } catch (error) {
+      this.subscribedRooms.delete(documentId);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop receiving a room's messages once this instance has no sockets left in it
+   */
+  static async leaveRoom(documentId: string): Promise<void> {
+    if (!this.subscribedRooms.delete(documentId)) {
+      return;
+    }
+
+    await RedisPubSubService.unsubscribe(this.getChannel(documentId));
+  }
+
+  /**
+   * Deliver a message to every socket in a room on every instance
+   */
+  static async publish(
+    documentId: string,
+    type: string,
+    data: any,
+    options: RoomPublishOptions = {}
+  ): Promise<void> {
+    const message: RoomMessage = {
+      type,
+      data,
+      origin: {
+        instanceId: this.INSTANCE_ID,
+        ...(options.originSocketId && { socketId: options.originSocketId }),
+      },
+      ...(options.excludeSocketId && { excludeSocketId: options.excludeSocketId }),
+    };
+
+    this.deliverLocally(documentId, message);
+    await RedisPubSubService.publish(this.getChannel(documentId), message);
+  }
+
+  /**
+   * Check whether a message was published by this instance
+   */
+  static isLocalOrigin(message: RoomMessage): boolean {
+    return message.origin?.instanceId === this.INSTANCE_ID;
+  }
+
+  private static handlePubSubMessage(message: RoomMessage, channel: string): void {
+    // Already delivered to this instance's sockets when it was published
+    if (this.isLocalOrigin(message)) {
+      return;
+    }
+
+    this.deliverLocally(channel.slice(this.CHANNEL_PREFIX.length), message);
+  }
+
+  private static deliverLocally(documentId: string, message: RoomMessage): void {
+    if (!this.deliveryHandler) {
+      console.warn(`⚠️ No room delivery handler registered, dropping ${message.type}`);
+      return;
+    }
+
+    this.deliveryHandler(documentId, message);
+  }
+
+  private static getChannel(documentId: string): string {
+    return `${this.CHANNEL_PREFIX}${documentId}`;
+  }
+}
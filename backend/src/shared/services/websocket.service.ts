@@ -1,39 +1,132 @@
 import { WebSocketServer, WebSocket } from 'ws';
+import * as Y from 'yjs';
 import { Server as HttpServer } from 'http';
 import jwt from 'jsonwebtoken';
 import { URL } from 'url';
-import { jwt as jwtConfig } from '../../config';
-import { RateLimitService, RateLimitConfig } from './rate-limit.service';
+import {
+  MESSAGE_AWARENESS,
+  MESSAGE_CHUNK,
+  MESSAGE_SYNC,
+  SYNC_STEP_1,
+  SYNC_STEP_2,
+  SYNC_UPDATE,
+  decodeAwarenessPayload,
+  decodeChunkPayload,
+  decodeEnvelope,
+  decodeSyncPayload,
+  encodeAwarenessMessage,
+  encodeChunkMessage,
+  encodeSyncMessage,
+  ChunkData,
+  ChunkTransfer,
+  ChunkTransferError,
+  MessageChunk,
+  addChunk,
+  createTransferId,
+  pruneTransfers,
+  splitMessage,
+  ClientMessage,
+  ClientMessageData,
+  ErrorCode,
+  LEGACY_PROTOCOL_VERSION,
+  MIN_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  ServerMessageData,
+  ServerMessageType,
+  clientMessageSchema,
+  describeProtocolError,
+  negotiateProtocolVersion,
+} from '@sync-text/protocol';
+import {
+  server as serverConfig,
+  jwt as jwtConfig,
+  collaboration as collaborationConfig,
+  wsRateLimit as wsRateLimitConfig,
+  WebSocketRateLimitConfig,
+} from '../../config';
+import { RateLimitService, RateLimitStat } from './rate-limit.service';
 import { ActiveSessionsService } from './active-sessions.service';
-import { RedisPubSubService, PubSubMessage } from './redis-pubsub.service';
+import { RoomRouterService, RoomMessage } from './room-router.service';
+import { YjsDocumentService, StateCheckResult, YjsStorageError } from './yjs-document.service';
+import { DivergenceAuditService } from './divergence-audit.service';
+import { AwarenessService } from './awareness.service';
+import { RedisService } from './redis.service';
+import {
+  AccessRevocationService,
+  AccessRevocationEvent,
+  ACCESS_REVOKED_CLOSE_CODES,
+} from './access-revocation.service';
+import { DocumentsService } from '../../modules/documents/documents.service';
+import { UserRole } from '../../modules/documents/documents.types';
+
+export interface SocketRoom {
+  // Role on the document, resolved once on join
+  role: UserRole;
+  // Yjs updates held back while the socket's send buffer is full, merged into one
+  pendingUpdate?: Uint8Array;
+  // Awareness changed while the socket was congested; a snapshot goes out once it drains
+  awarenessStale?: boolean;
+  // Updates are dropped until the client answers resync-required with its state vector
+  awaitingResync?: boolean;
+}
+
+// Clients older than this can't be asked to resync, so slow ones are disconnected instead
+const RESYNC_PROTOCOL_VERSION = 3;
+
+// How often a congested socket's send buffer is checked for room to flush held-back traffic
+const FLUSH_RETRY_MS = 50;
+
+// Clients older than this can't reassemble chunked messages, so they get them whole
+const CHUNKED_PROTOCOL_VERSION = 4;
+
+// Chunked messages a socket may be sending at once, and how long one may take to complete
+const MAX_CONCURRENT_TRANSFERS = 4;
+const CHUNK_TRANSFER_TIMEOUT_MS = 30000;
+
+// Message types that share another type's rate limit; sync-step-2 applies edits like yjs-update
+const RATE_LIMIT_POLICY_ALIASES: Record<string, string> = {
+  'sync-step-2': 'yjs-update',
+};
+
+// Message types every connection sends on its own schedule, so their user limit is per socket
+// rather than shared by all of a user's tabs
+const PER_SOCKET_RATE_LIMIT_TYPES = new Set(['ping']);
 
 export interface AuthenticatedWebSocket extends WebSocket {
   userId?: string;
   username?: string;
-  documentId?: string;
   socketId?: string;
+  // Client address, from X-Forwarded-For when behind a proxy
+  ip?: string;
+  binaryProtocol?: boolean;
+  // Protocol version negotiated on connect
+  protocolVersion?: number;
+  // Documents joined over this connection, keyed by document ID
+  rooms?: Map<string, SocketRoom>;
+  // Cleared on every heartbeat and set again when the pong arrives
+  isAlive?: boolean;
+  // Pending retry of held-back room traffic
+  flushTimer?: NodeJS.Timeout;
+  // Chunked messages being received, keyed by transfer ID
+  chunkTransfers?: Map<string, ChunkTransfer>;
+  // Frames waiting behind a chunked message being sent, drained one per tick
+  outbox?: ChunkData[];
+  outboxTimer?: NodeJS.Timeout;
+  // Tail of the frames being handled; each waits for the previous one to finish
+  messageQueue?: Promise<void>;
 }
 
 export interface DocumentUser {
   userId: string;
   username: string;
-  socketId: string;
-}
-
-export interface WebSocketMessage {
-  type: string;
-  data: any;
-  documentId?: string;
+  socketIds: string[];
 }
 
 export class WebSocketService {
   private wss: WebSocketServer | null = null;
   private socketConnections: Map<string, AuthenticatedWebSocket> = new Map();
-
-  private readonly rateLimitConfigs: Map<string, RateLimitConfig> = new Map([
-    ['yjs-update', { maxMessages: 50, windowMs: 1000, blockDurationMs: 5000 }],
-    ['awareness-update', { maxMessages: 30, windowMs: 1000, blockDurationMs: 3000 }],
-  ]);
+  private heartbeatInterval: NodeJS.Timeout | null = null;
 
   /**
    * Initialize WebSocket server
@@ -42,16 +135,24 @@ export class WebSocketService {
     this.wss = new WebSocketServer({
       server: httpServer,
       path: '/ws',
+      // Larger frames close the connection; clients chunk anything bigger
+      maxPayload: collaborationConfig.maxFrameBytes,
       verifyClient: this.verifyClient.bind(this),
     });
 
     this.wss.on('connection', this.handleConnection.bind(this));
 
-    setInterval(() => {
-      RateLimitService.cleanupExpiredData().catch(error => {
-        console.error('Failed to cleanup rate limit data:', error);
+    RoomRouterService.setDeliveryHandler(this.deliverToRoom.bind(this));
+
+    AccessRevocationService.subscribe(this.handleAccessRevocation.bind(this)).catch(error => {
+      console.error('Failed to subscribe to access revocations:', error);
+    });
+
+    this.heartbeatInterval = setInterval(() => {
+      this.runHeartbeat().catch(error => {
+        console.error('Failed to run WebSocket heartbeat:', error);
       });
-    }, 300000);
+    }, collaborationConfig.heartbeatIntervalMs);
 
     setInterval(() => {
       ActiveSessionsService.cleanupStaleSessions().catch(error => {
@@ -63,30 +164,49 @@ export class WebSocketService {
   /**
    * Verify client authentication
    */
-  private verifyClient(info: any): boolean {
+  private verifyClient(info: any, callback: (result: boolean) => void): void {
+    let decoded: any;
     try {
       const url = new URL(info.req.url!, `http://${info.req.headers.host}`);
       const token = url.searchParams.get('token');
 
       if (!token) {
         console.log('❌ WebSocket connection rejected: No token provided');
-        return false;
+        callback(false);
+        return;
       }
 
-      const decoded = jwt.verify(token, jwtConfig.secret) as any;
+      decoded = jwt.verify(token, jwtConfig.secret) as any;
       if (!decoded.userId) {
         console.log('❌ WebSocket connection rejected: Invalid token');
-        return false;
+        callback(false);
+        return;
       }
 
       info.req.userId = decoded.userId;
       info.req.username = decoded.username || decoded.email?.split('@')[0];
-
-      return true;
+      info.req.binaryProtocol = url.searchParams.get('encoding') === 'binary';
+      info.req.protocolVersion = negotiateProtocolVersion(url.searchParams.get('protocol'));
+      info.req.clientIp = this.getClientIp(info.req);
     } catch (error) {
       console.log('❌ WebSocket connection rejected: Token verification failed', error);
-      return false;
+      callback(false);
+      return;
     }
+
+    // A revoked token is still a valid JWT, so also require the login session
+    RedisService.getClient()
+      .exists(`user_session:${decoded.userId}`)
+      .then(exists => {
+        if (!exists) {
+          console.log('❌ WebSocket connection rejected: Session revoked');
+        }
+        callback(exists === 1);
+      })
+      .catch(error => {
+        console.log('❌ WebSocket connection rejected: Session lookup failed', error);
+        callback(false);
+      });
   }
 
   /**
@@ -98,6 +218,18 @@ export class WebSocketService {
 
     ws.userId = userId;
     ws.username = username;
+    ws.ip = req.clientIp;
+    ws.binaryProtocol = req.binaryProtocol === true;
+    const protocolVersion: number = req.protocolVersion ?? LEGACY_PROTOCOL_VERSION;
+    ws.protocolVersion = protocolVersion;
+    ws.isAlive = true;
+    ws.rooms = new Map();
+
+    if (protocolVersion < MIN_PROTOCOL_VERSION) {
+      console.log(`❌ WebSocket rejected: unsupported protocol version ${protocolVersion}`);
+      ws.close(4400, 'Unsupported protocol version');
+      return;
+    }
 
     const socketId = this.generateSocketId(ws);
     ws.socketId = socketId;
@@ -105,14 +237,16 @@ export class WebSocketService {
 
     console.log(`✅ WebSocket connected: ${username} (${userId}) with socket_id: ${socketId}`);
 
-    ws.on('message', async (data: Buffer) => {
-      try {
-        const message: WebSocketMessage = JSON.parse(data.toString());
-        await this.handleMessage(ws, message);
-      } catch (error) {
-        console.error('❌ Invalid WebSocket message:', error);
-        this.sendError(ws, 'Invalid message format');
-      }
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      const frame = isBinary ? new Uint8Array(data) : data.toString();
+      // Frames are handled one at a time, so an update can't overtake the join sent before it
+      ws.messageQueue = (ws.messageQueue ?? Promise.resolve()).then(() =>
+        this.handleIncomingFrame(ws, frame)
+      );
+    });
+
+    ws.on('pong', () => {
+      this.handlePong(ws);
     });
 
     ws.on('close', () => {
@@ -123,176 +257,724 @@ export class WebSocketService {
       console.error(`❌ WebSocket error for user ${username}:`, error);
     });
 
-    this.sendMessage(ws, 'connected', { message: 'WebSocket connected successfully' });
+    this.sendMessage(ws, 'connected', {
+      message: 'WebSocket connected successfully',
+      encoding: ws.binaryProtocol ? 'binary' : 'json',
+      protocolVersion,
+      serverProtocolVersion: PROTOCOL_VERSION,
+      maxFrameBytes: collaborationConfig.maxFrameBytes,
+    });
   }
 
   /**
-   * Handle incoming WebSocket messages
+   * Handle a frame received from the socket, reporting failures to the client instead of
+   * letting them escape as unhandled rejections
    */
-  private async handleMessage(
-    ws: AuthenticatedWebSocket,
-    message: WebSocketMessage
-  ): Promise<void> {
-    const { type, data } = message;
+  private async handleIncomingFrame(ws: AuthenticatedWebSocket, frame: ChunkData): Promise<void> {
+    try {
+      await this.handleFrame(ws, frame);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        console.error('❌ Invalid WebSocket message:', error);
+        this.sendError(ws, 'INVALID_MESSAGE', 'Invalid message format');
+        return;
+      }
 
-    if (ws.userId && this.rateLimitConfigs.has(type)) {
-      const config = this.rateLimitConfigs.get(type)!;
-      const rateLimitResult = await RateLimitService.isRateLimited(ws.userId, type, config);
+      console.error(`❌ Failed to handle WebSocket message from ${ws.username}:`, error);
+      this.sendError(ws, 'INTERNAL_ERROR', 'The server failed to process the message');
+    }
+  }
 
-      if (rateLimitResult.isLimited) {
-        const remainingBlockTime = rateLimitResult.blockedUntil
-          ? Math.ceil((rateLimitResult.blockedUntil - Date.now()) / 1000)
-          : 0;
+  /**
+   * Handle a whole message: a received frame, or one reassembled from chunks
+   */
+  private async handleFrame(ws: AuthenticatedWebSocket, frame: ChunkData): Promise<void> {
+    const size = typeof frame === 'string' ? Buffer.byteLength(frame) : frame.length;
+    if (size > collaborationConfig.maxMessageBytes) {
+      this.sendError(
+        ws,
+        'PAYLOAD_TOO_LARGE',
+        `Message of ${size} bytes exceeds the ${collaborationConfig.maxMessageBytes} byte limit`
+      );
+      return;
+    }
 
-        console.warn(
-          `⚠️ Rate limited: ${ws.username} (${ws.userId}) for message type: ${type}${remainingBlockTime > 0 ? `, blocked for ${remainingBlockTime}s` : ''}`
-        );
-        this.sendError(ws, `Rate limit exceeded for ${type}. Please slow down.`);
-        return;
-      }
+    if (typeof frame !== 'string') {
+      await this.handleBinaryMessage(ws, frame);
+      return;
+    }
+
+    const raw = JSON.parse(frame);
+    const parsed = clientMessageSchema.safeParse(raw);
+    if (!parsed.success) {
+      this.sendError(
+        ws,
+        'INVALID_MESSAGE',
+        `Invalid message: ${describeProtocolError(parsed.error)}`,
+        typeof raw?.type === 'string' ? { messageType: raw.type } : {}
+      );
+      return;
     }
 
-    switch (type) {
+    await this.handleMessage(ws, parsed.data);
+  }
+
+  /**
+   * Handle incoming WebSocket messages (already validated against the protocol schemas)
+   */
+  private async handleMessage(ws: AuthenticatedWebSocket, message: ClientMessage): Promise<void> {
+    const { type } = message;
+    const documentId = 'documentId' in message.data ? message.data.documentId : undefined;
+
+    if (await this.isRateLimited(ws, type, documentId)) {
+      return;
+    }
+
+    switch (message.type) {
       case 'join-document':
-        this.handleJoinDocument(ws, data.documentId);
+        await this.handleJoinDocument(ws, message.data.documentId, message.data.stateVector);
         break;
 
       case 'leave-document':
-        this.handleLeaveDocument(ws);
+        if (message.data.documentId) {
+          await this.handleLeaveDocument(ws, message.data.documentId);
+        } else {
+          await this.leaveAllDocuments(ws);
+        }
+        break;
+
+      case 'sync-step-1':
+        await this.handleSyncStep1(ws, message.data);
         break;
 
+      case 'sync-step-2':
       case 'yjs-update':
-        this.handleYjsUpdate(ws, data);
+        await this.handleYjsUpdate(ws, message.data);
+        break;
+
+      case 'state-check':
+        await this.handleStateCheck(ws, message.data);
         break;
 
       case 'awareness-update':
-        this.handleAwarenessUpdate(ws, data);
+        await this.handleAwarenessUpdate(ws, message.data);
         break;
 
-      default:
-        console.warn(`⚠️ Unknown WebSocket message type: ${type}`);
-        this.sendError(ws, `Unknown message type: ${type}`);
+      case 'message-chunk':
+        await this.handleMessageChunk(ws, message.data.documentId, message.data);
+        break;
+
+      case 'ping':
+        this.sendMessage(ws, 'pong', { id: message.data.id });
+        break;
+    }
+  }
+
+  /**
+   * Handle incoming binary frames (Yjs sync and awareness traffic)
+   */
+  private async handleBinaryMessage(ws: AuthenticatedWebSocket, data: Uint8Array): Promise<void> {
+    const { messageType, documentId, decoder } = decodeEnvelope(data);
+
+    if (!this.getJoinedRoom(ws, documentId)) {
+      return;
+    }
+
+    switch (messageType) {
+      case MESSAGE_SYNC: {
+        const { syncType, payload, seq } = decodeSyncPayload(decoder);
+
+        if (syncType === SYNC_STEP_1) {
+          if (await this.isRateLimited(ws, 'sync-step-1', documentId)) {
+            return;
+          }
+          await this.sendSyncStep2(ws, documentId, payload);
+          return;
+        }
+
+        if (syncType !== SYNC_STEP_2 && syncType !== SYNC_UPDATE) {
+          this.sendError(ws, 'INVALID_MESSAGE', `Unknown sync message type: ${syncType}`, {
+            documentId,
+          });
+          return;
+        }
+
+        if (await this.isRateLimited(ws, 'yjs-update', documentId)) {
+          return;
+        }
+        await this.processYjsUpdate(ws, documentId, payload, seq);
         return;
+      }
+
+      case MESSAGE_AWARENESS: {
+        if (await this.isRateLimited(ws, 'awareness-update', documentId)) {
+          return;
+        }
+        await this.relayAwarenessUpdate(ws, documentId, decodeAwarenessPayload(decoder));
+        return;
+      }
+
+      case MESSAGE_CHUNK: {
+        if (await this.isRateLimited(ws, 'message-chunk', documentId)) {
+          return;
+        }
+        await this.handleMessageChunk(ws, documentId, decodeChunkPayload(decoder));
+        return;
+      }
+
+      default:
+        console.warn(`⚠️ Unknown binary message type: ${messageType}`);
+        this.sendError(ws, 'INVALID_MESSAGE', `Unknown message type: ${messageType}`, {
+          documentId,
+        });
+    }
+  }
+
+  /**
+   * Count a message against the configured limits for its type, notifying the client when
+   * one is exceeded. The user limit is per room so a busy document doesn't throttle the others
+   */
+  private async isRateLimited(
+    ws: AuthenticatedWebSocket,
+    type: string,
+    documentId?: string
+  ): Promise<boolean> {
+    const policyType = RATE_LIMIT_POLICY_ALIASES[type] ?? type;
+    const policies = wsRateLimitConfig[policyType];
+    if (!ws.userId || !policies) {
+      return false;
     }
 
-    if (ws.userId && this.rateLimitConfigs.has(type)) {
-      await RateLimitService.incrementRateLimit(ws.userId, type);
+    const rateLimitResult = await RateLimitService.consume(
+      policyType,
+      {
+        user: PER_SOCKET_RATE_LIMIT_TYPES.has(policyType)
+          ? `${ws.userId}:${ws.socketId}`
+          : documentId
+            ? `${ws.userId}:${documentId}`
+            : ws.userId,
+        ...(documentId && { document: documentId }),
+        ...(ws.ip && { ip: ws.ip }),
+      },
+      policies
+    );
+    if (!rateLimitResult.isLimited) {
+      return false;
     }
+
+    const retryAfterMs = Math.max(
+      0,
+      (rateLimitResult.blockedUntil ?? rateLimitResult.resetTime) - Date.now()
+    );
+    const remainingBlockTime = Math.ceil(retryAfterMs / 1000);
+
+    console.warn(
+      `⚠️ Rate limited (${rateLimitResult.scope ?? 'user'}): ${ws.username} (${ws.userId}) for message type: ${type}${remainingBlockTime > 0 ? `, blocked for ${remainingBlockTime}s` : ''}`
+    );
+    this.sendError(ws, 'RATE_LIMITED', `Rate limit exceeded for ${type}. Please slow down.`, {
+      ...(documentId && { documentId }),
+      messageType: type,
+      retryAfterMs,
+    });
+    return true;
   }
 
   /**
-   * Handle user joining a document
+   * Resolve the client address. X-Forwarded-For is only read as deep as the configured
+   * trusted proxies, since anything further left can be written by the client itself
    */
-  private async handleJoinDocument(ws: AuthenticatedWebSocket, documentId: string): Promise<void> {
-    if (!ws.userId || !ws.username) {
-      this.sendError(ws, 'User not authenticated');
+  private getClientIp(req: any): string | undefined {
+    const remoteAddress: string | undefined = req.socket?.remoteAddress;
+    if (serverConfig.trustProxyHops <= 0) {
+      return remoteAddress;
+    }
+
+    const forwardedFor = req.headers['x-forwarded-for'];
+    const hops = (Array.isArray(forwardedFor) ? forwardedFor.join(',') : (forwardedFor ?? ''))
+      .split(',')
+      .map((hop: string) => hop.trim())
+      .filter(Boolean);
+    // Each trusted proxy appended the address it received from; the client is the entry
+    // just before the last one they added
+    return hops[hops.length - serverConfig.trustProxyHops] ?? hops[0] ?? remoteAddress;
+  }
+
+  /**
+   * Collect a chunk of a large message and handle the message once every chunk has arrived
+   */
+  private async handleMessageChunk(
+    ws: AuthenticatedWebSocket,
+    documentId: string,
+    chunk: MessageChunk
+  ): Promise<void> {
+    const transfers = ws.chunkTransfers ?? new Map<string, ChunkTransfer>();
+    ws.chunkTransfers = transfers;
+    pruneTransfers(transfers, CHUNK_TRANSFER_TIMEOUT_MS);
+
+    if (!transfers.has(chunk.transferId) && transfers.size >= MAX_CONCURRENT_TRANSFERS) {
+      this.sendError(
+        ws,
+        'INVALID_MESSAGE',
+        `Cannot send more than ${MAX_CONCURRENT_TRANSFERS} chunked messages at once`,
+        { documentId, messageType: 'message-chunk' }
+      );
       return;
     }
 
-    if (ws.documentId) {
-      await this.handleLeaveDocument(ws);
+    let message: ChunkData | null;
+    try {
+      message = addChunk(transfers, chunk, collaborationConfig.maxMessageBytes);
+    } catch (error) {
+      if (!(error instanceof ChunkTransferError)) {
+        throw error;
+      }
+      this.sendError(ws, error.tooLarge ? 'PAYLOAD_TOO_LARGE' : 'INVALID_MESSAGE', error.message, {
+        documentId,
+        messageType: 'message-chunk',
+      });
+      return;
     }
 
-    ws.documentId = documentId;
+    if (message !== null) {
+      await this.handleFrame(ws, message);
+    }
+  }
 
-    if (!ws.socketId) {
-      this.sendError(ws, 'Socket ID not found');
+  /**
+   * Handle user joining a document
+   */
+  private async handleJoinDocument(
+    ws: AuthenticatedWebSocket,
+    documentId: string,
+    stateVector?: string
+  ): Promise<void> {
+    if (!ws.userId || !ws.username || !ws.socketId || !ws.rooms) {
+      this.sendError(ws, 'FORBIDDEN', 'User not authenticated', { messageType: 'join-document' });
       return;
     }
-    await ActiveSessionsService.addSession(documentId, ws.userId, ws.username, ws.socketId);
 
-    await RedisPubSubService.publish(`channel:${documentId}`, {
-      type: 'user-joined',
-      data: { user: { userId: ws.userId, username: ws.username } },
-    });
-    console.log(`📡 Published user-joined event for ${ws.username} to channel:${documentId}`);
+    const rejoining = ws.rooms.has(documentId);
+    if (!rejoining && ws.rooms.size >= collaborationConfig.maxRoomsPerSocket) {
+      this.sendError(
+        ws,
+        'FORBIDDEN',
+        `Cannot join more than ${collaborationConfig.maxRoomsPerSocket} documents on one connection`,
+        { documentId, messageType: 'join-document' }
+      );
+      return;
+    }
 
-    await RedisPubSubService.subscribe(
-      `channel:${documentId}`,
-      this.handlePubSubMessage.bind(this)
-    );
+    const role = await DocumentsService.getUserRole(documentId, ws.userId);
+    if (!role) {
+      console.warn(`⚠️ ${ws.username} (${ws.userId}) denied access to document ${documentId}`);
+      this.sendError(ws, 'FORBIDDEN', 'Access denied to document', {
+        documentId,
+        messageType: 'join-document',
+      });
+      return;
+    }
+
+    // A rejoin keeps its held-back updates and resync state; only the role is refreshed
+    const existingRoom = ws.rooms.get(documentId);
+    if (existingRoom) {
+      existingRoom.role = role;
+    } else {
+      ws.rooms.set(documentId, { role });
+    }
+
+    // Joining again only re-runs the sync; presence is already in place
+    if (!rejoining) {
+      // Another tab or device of the same user is already present; nobody needs to hear about it
+      const alreadyPresent = await ActiveSessionsService.hasActiveSession(documentId, ws.userId);
+      await ActiveSessionsService.addSession(documentId, ws.userId, ws.username, ws.socketId);
 
-    const sessions = await ActiveSessionsService.getDocumentSessions(documentId);
-    const users = sessions.map(session => ({
-      userId: session.userId,
-      username: session.username,
+      await RoomRouterService.joinRoom(documentId);
+
+      if (!alreadyPresent) {
+        await this.broadcastToDocument(
+          documentId,
+          'user-joined',
+          { documentId, user: { userId: ws.userId, username: ws.username } },
+          ws.socketId
+        );
+        console.log(`📡 Published user-joined event for ${ws.username} to channel:${documentId}`);
+      }
+    }
+
+    await this.sendSyncStep2(ws, documentId, this.decodeBase64(stateVector));
+    await this.sendSyncStep1(ws, documentId);
+
+    const activeUsers = await ActiveSessionsService.getDocumentUsers(documentId);
+    const users = activeUsers.map(user => ({
+      userId: user.userId,
+      username: user.username,
     }));
 
-    this.sendMessage(ws, 'users-in-document', { users });
+    this.sendMessage(ws, 'users-in-document', { documentId, users });
+
+    // Late joiners see everyone's cursor right away instead of when it next moves
+    const awarenessSnapshot = AwarenessService.getSnapshot(documentId);
+    if (awarenessSnapshot) {
+      this.deliver(ws, documentId, 'awareness-update', {
+        documentId,
+        update: Buffer.from(awarenessSnapshot).toString('base64'),
+      });
+    }
   }
 
   /**
    * Handle user leaving a document
    */
-  private async handleLeaveDocument(ws: AuthenticatedWebSocket): Promise<void> {
-    if (!ws.documentId || !ws.userId) {
+  private async handleLeaveDocument(ws: AuthenticatedWebSocket, documentId: string): Promise<void> {
+    if (!ws.userId || !ws.username || !ws.socketId || !ws.rooms?.delete(documentId)) {
       return;
     }
 
-    const documentId = ws.documentId;
+    await ActiveSessionsService.removeSession(documentId, ws.socketId);
 
-    await ActiveSessionsService.removeSession(documentId, ws.userId);
+    // Take the socket's cursor off other screens now rather than after their awareness timeout
+    const awarenessRemoval = AwarenessService.removeSocket(documentId, ws.socketId);
+    if (awarenessRemoval) {
+      await this.broadcastToDocument(
+        documentId,
+        'awareness-update',
+        { documentId, update: Buffer.from(awarenessRemoval).toString('base64') },
+        ws.socketId
+      );
+    }
 
-    await RedisPubSubService.publish(`channel:${documentId}`, {
-      type: 'user-left',
-      data: { user: { userId: ws.userId, username: ws.username } },
-    });
-    console.log(`📡 Published user-left event for ${ws.username} to channel:${documentId}`);
+    // The user is only gone once their last tab or device has left
+    if (!(await ActiveSessionsService.hasActiveSession(documentId, ws.userId))) {
+      await this.broadcastToDocument(
+        documentId,
+        'user-left',
+        { documentId, user: { userId: ws.userId, username: ws.username } },
+        ws.socketId
+      );
+      console.log(`📡 Published user-left event for ${ws.username} to channel:${documentId}`);
+    }
 
     console.log(`👤 User ${ws.username} left document ${documentId}`);
-    delete ws.documentId;
 
-    const remainingSessions = await ActiveSessionsService.getDocumentSessionCount(documentId);
-    if (remainingSessions === 0) {
-      await RedisPubSubService.unsubscribe(`channel:${documentId}`);
-      console.log(`📡 Unsubscribed from channel:${documentId} - no users remaining`);
+    YjsDocumentService.releaseSeed(documentId, ws.socketId);
+    if (!this.hasLocalSockets(documentId)) {
+      await YjsDocumentService.releaseDocument(documentId, () => !this.hasLocalSockets(documentId));
+
+      // Checked again: a socket that joined while the document was persisted keeps the room
+      if (!this.hasLocalSockets(documentId)) {
+        AwarenessService.releaseRoom(documentId);
+        await RoomRouterService.leaveRoom(documentId);
+        console.log(`📡 Left room ${documentId} - no local sockets remaining`);
+      }
+    }
+  }
+
+  /**
+   * Leave every document joined over a connection
+   */
+  private async leaveAllDocuments(ws: AuthenticatedWebSocket): Promise<void> {
+    const documentIds = Array.from(ws.rooms?.keys() ?? []);
+    for (const documentId of documentIds) {
+      await this.handleLeaveDocument(ws, documentId);
+    }
+  }
+
+  /**
+   * Handle sync step 1: the client sent its state vector and wants what it is missing
+   */
+  private async handleSyncStep1(
+    ws: AuthenticatedWebSocket,
+    data: ClientMessageData<'sync-step-1'>
+  ): Promise<void> {
+    if (!this.getJoinedRoom(ws, data.documentId)) {
+      return;
+    }
+
+    await this.sendSyncStep2(ws, data.documentId, this.decodeBase64(data.stateVector));
+  }
+
+  /**
+   * Send sync step 1: the server's state vector, so the client can reply with its missing diff
+   */
+  private async sendSyncStep1(ws: AuthenticatedWebSocket, documentId: string): Promise<void> {
+    const stateVector = await YjsDocumentService.getStateVector(documentId);
+
+    if (ws.binaryProtocol) {
+      this.sendBinary(ws, encodeSyncMessage(documentId, SYNC_STEP_1, stateVector));
+      return;
+    }
+
+    this.sendMessage(ws, 'sync-step-1', {
+      documentId,
+      stateVector: Buffer.from(stateVector).toString('base64'),
+    });
+  }
+
+  /**
+   * Send sync step 2: only the part of the server document the client's state vector lacks
+   */
+  private async sendSyncStep2(
+    ws: AuthenticatedWebSocket,
+    documentId: string,
+    stateVector?: Uint8Array
+  ): Promise<void> {
+    let diff: Uint8Array;
+    try {
+      diff = await YjsDocumentService.getStateUpdate(documentId, stateVector);
+    } catch (error) {
+      console.error(`❌ Invalid state vector from ${ws.username}:`, error);
+      this.sendError(ws, 'INVALID_MESSAGE', 'Invalid state vector', { documentId });
+      return;
+    }
+
+    // The diff covers every update dropped while the socket was too slow
+    const room = ws.rooms?.get(documentId);
+    if (room) {
+      room.awaitingResync = false;
+    }
+
+    // Only someone allowed to edit may seed the shared document from its stored HTML
+    const shouldSeed =
+      ws.socketId && this.canEdit(ws, documentId)
+        ? await YjsDocumentService.claimSeed(documentId, ws.socketId)
+        : false;
+
+    if (ws.binaryProtocol) {
+      this.sendBinary(ws, encodeSyncMessage(documentId, SYNC_STEP_2, diff));
+      this.sendMessage(ws, 'synced', { documentId, shouldSeed });
+      return;
     }
+
+    this.sendMessage(ws, 'sync-step-2', {
+      documentId,
+      update: Buffer.from(diff).toString('base64'),
+      shouldSeed,
+    });
   }
 
   /**
    * Handle Yjs document update
    */
-  private handleYjsUpdate(ws: AuthenticatedWebSocket, data: any): void {
-    if (!ws.documentId) {
-      this.sendError(ws, 'Not joined to any document');
+  private async handleYjsUpdate(
+    ws: AuthenticatedWebSocket,
+    data: ClientMessageData<'yjs-update' | 'sync-step-2'>
+  ): Promise<void> {
+    if (!this.getJoinedRoom(ws, data.documentId)) {
       return;
     }
 
-    this.broadcastToDocument(
-      ws.documentId,
-      'yjs-update',
-      {
-        documentId: data.documentId,
-        update: data.update,
-        user: {
-          userId: ws.userId,
-          username: ws.username,
+    await this.processYjsUpdate(ws, data.documentId, Buffer.from(data.update, 'base64'), data.seq);
+  }
+
+  /**
+   * Apply a client's Yjs update to the server document and fan it out. Sequenced updates
+   * are acked once stored; anything else (rate limited, rejected) is left for the client to resend
+   */
+  private async processYjsUpdate(
+    ws: AuthenticatedWebSocket,
+    documentId: string,
+    update: Uint8Array,
+    seq?: number
+  ): Promise<void> {
+    if (!this.canEdit(ws, documentId)) {
+      this.sendError(ws, 'FORBIDDEN', 'Viewers cannot edit this document', {
+        documentId,
+        messageType: 'yjs-update',
+      });
+      return;
+    }
+
+    if (YjsDocumentService.isEmptyUpdate(update)) {
+      this.sendAck(ws, documentId, seq);
+      return;
+    }
+
+    try {
+      await YjsDocumentService.applyUpdate(documentId, update, ws.socketId);
+    } catch (error) {
+      if (error instanceof YjsStorageError) {
+        // Left unacked so the client resends it
+        this.sendError(ws, 'STORAGE_FAILED', 'Failed to store Yjs update', {
+          documentId,
+          messageType: 'yjs-update',
+        });
+        return;
+      }
+      console.error(`❌ Failed to apply Yjs update from ${ws.username}:`, error);
+      this.sendError(ws, 'INVALID_MESSAGE', 'Invalid Yjs update', {
+        documentId,
+        messageType: 'yjs-update',
+      });
+      return;
+    }
+
+    // The update is stored either way; peers that miss the fan-out catch up on their next state check
+    try {
+      await this.broadcastToDocument(
+        documentId,
+        'yjs-update',
+        {
+          documentId,
+          update: Buffer.from(update).toString('base64'),
+          ...(ws.userId && ws.username && { user: { userId: ws.userId, username: ws.username } }),
         },
-      },
-      ws.userId
-    );
+        ws.socketId
+      );
+    } catch (error) {
+      console.error(`❌ Failed to broadcast Yjs update for document ${documentId}:`, error);
+    }
+
+    this.sendAck(ws, documentId, seq);
+  }
+
+  /**
+   * Confirm a sequenced update so the client can stop retaining it
+   */
+  private sendAck(ws: AuthenticatedWebSocket, documentId: string, seq?: number): void {
+    if (seq !== undefined) {
+      this.sendMessage(ws, 'ack', { documentId, seq });
+    }
+  }
+
+  /**
+   * Compare a client's document state with the server's, auditing real divergence and
+   * replying with what the client needs to resync
+   */
+  private async handleStateCheck(
+    ws: AuthenticatedWebSocket,
+    data: ClientMessageData<'state-check'>
+  ): Promise<void> {
+    if (!ws.userId || !this.getJoinedRoom(ws, data.documentId)) {
+      return;
+    }
+
+    const { documentId } = data;
+    const clientStateVector = Buffer.from(data.stateVector, 'base64');
+    let result: StateCheckResult;
+    try {
+      result = await YjsDocumentService.checkState(documentId, clientStateVector, data.checksum);
+    } catch (error) {
+      console.error(`❌ Failed to check state of document ${documentId}:`, error);
+      this.sendError(ws, 'INVALID_MESSAGE', 'Invalid state check', {
+        documentId,
+        messageType: 'state-check',
+      });
+      return;
+    }
+
+    if (result.divergence) {
+      DivergenceAuditService.record({
+        documentId,
+        userId: ws.userId,
+        reason: result.divergence,
+        clientStateVector,
+        serverStateVector: result.serverStateVector,
+        clientChecksum: data.checksum,
+        serverChecksum: result.serverChecksum,
+      }).catch(error => {
+        console.error(`Failed to record divergence on document ${documentId}:`, error);
+      });
+    }
+
+    this.sendMessage(ws, 'state-check-result', {
+      documentId,
+      inSync: result.inSync,
+      ...(result.divergence && { divergence: result.divergence }),
+      stateVector: Buffer.from(result.serverStateVector).toString('base64'),
+      checksum: result.serverChecksum,
+    });
   }
 
   /**
    * Handle awareness update (collaborative cursors)
    */
-  private handleAwarenessUpdate(ws: AuthenticatedWebSocket, data: any): void {
-    if (!ws.documentId) {
-      this.sendError(ws, 'Not joined to any document');
+  private async handleAwarenessUpdate(
+    ws: AuthenticatedWebSocket,
+    data: ClientMessageData<'awareness-update'>
+  ): Promise<void> {
+    if (!this.getJoinedRoom(ws, data.documentId)) {
       return;
     }
 
-    this.broadcastToDocument(
-      ws.documentId,
+    await this.relayAwarenessUpdate(ws, data.documentId, Buffer.from(data.update, 'base64'));
+  }
+
+  /**
+   * Fan an awareness update out to the rest of the document
+   */
+  private async relayAwarenessUpdate(
+    ws: AuthenticatedWebSocket,
+    documentId: string,
+    update: Uint8Array
+  ): Promise<void> {
+    AwarenessService.applyUpdate(documentId, update, ws.socketId);
+
+    await this.broadcastToDocument(
+      documentId,
       'awareness-update',
       {
-        documentId: data.documentId,
-        update: data.update,
+        documentId,
+        update: Buffer.from(update).toString('base64'),
       },
-      ws.userId
+      ws.socketId
     );
   }
 
+  /**
+   * Ping every socket, terminate the ones that missed the previous ping and
+   * expire presence of users whose heartbeats stopped (e.g. on a crashed instance)
+   */
+  private async runHeartbeat(): Promise<void> {
+    const documentIds = new Set<string>();
+
+    for (const socket of this.socketConnections.values()) {
+      if (socket.isAlive === false) {
+        console.warn(
+          `💀 Terminating unresponsive socket ${socket.socketId} of ${socket.username} (${socket.userId})`
+        );
+        socket.terminate();
+        continue;
+      }
+
+      socket.isAlive = false;
+      socket.ping();
+
+      for (const documentId of socket.rooms?.keys() ?? []) {
+        documentIds.add(documentId);
+      }
+    }
+
+    for (const documentId of documentIds) {
+      const expiredSessions = await ActiveSessionsService.pruneExpiredSessions(documentId);
+      const expiredUsers = new Map(expiredSessions.map(session => [session.userId, session]));
+
+      for (const session of expiredUsers.values()) {
+        if (await ActiveSessionsService.hasActiveSession(documentId, session.userId)) {
+          continue;
+        }
+
+        await this.broadcastToDocument(documentId, 'user-left', {
+          documentId,
+          user: { userId: session.userId, username: session.username },
+        });
+      }
+    }
+  }
+
+  /**
+   * Record a heartbeat answered by the client
+   */
+  private handlePong(ws: AuthenticatedWebSocket): void {
+    ws.isAlive = true;
+
+    if (!ws.socketId) {
+      return;
+    }
+    for (const documentId of ws.rooms?.keys() ?? []) {
+      ActiveSessionsService.updateLastActive(documentId, ws.socketId);
+    }
+  }
+
   /**
    * Handle client disconnect
    */
@@ -303,48 +985,484 @@ export class WebSocketService {
       );
 
       this.socketConnections.delete(ws.socketId);
+      clearTimeout(ws.flushTimer);
+      clearTimeout(ws.outboxTimer);
+
+      this.leaveAllDocuments(ws).catch(error => {
+        console.error(`❌ Failed to leave documents of disconnected socket ${ws.socketId}:`, error);
+      });
+    }
+  }
+
+  /**
+   * Apply a revocation published on any instance to the local sockets it affects: a revoked
+   * token closes the whole connection, a document-level revocation only removes that room
+   */
+  private handleAccessRevocation(event: AccessRevocationEvent): void {
+    const code = ACCESS_REVOKED_CLOSE_CODES[event.reason];
+    if (!code) {
+      console.warn(`⚠️ Unknown access revocation reason: ${event.reason}`);
+      return;
+    }
+
+    // The document row is gone, so its in-memory state must not be persisted again
+    if (event.reason === 'document-deleted' && event.documentId) {
+      YjsDocumentService.discardDocument(event.documentId);
+    }
+
+    for (const socket of this.socketConnections.values()) {
+      if (event.userId && event.userId !== socket.userId) {
+        continue;
+      }
+
+      if (!event.documentId) {
+        if (event.userId) {
+          console.log(
+            `🚫 Closing socket ${socket.socketId} of ${socket.username} (${socket.userId}): ${event.reason}`
+          );
+          socket.close(code, event.reason);
+        }
+        continue;
+      }
 
-      this.handleLeaveDocument(ws);
+      if (!socket.rooms?.has(event.documentId)) {
+        continue;
+      }
+
+      console.log(
+        `🚫 Removing ${socket.username} (${socket.userId}) from document ${event.documentId}: ${event.reason}`
+      );
+      this.sendMessage(socket, 'access-revoked', {
+        documentId: event.documentId,
+        reason: event.reason,
+        code,
+      });
+      this.handleLeaveDocument(socket, event.documentId).catch(error => {
+        console.error(`Failed to remove revoked socket from ${event.documentId}:`, error);
+      });
     }
   }
 
   /**
    * Send message to a specific WebSocket
    */
-  private sendMessage(ws: AuthenticatedWebSocket, type: string, data: any): void {
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify({ type, data }));
+  private sendMessage<T extends ServerMessageType>(
+    ws: AuthenticatedWebSocket,
+    type: T,
+    data: ServerMessageData<T>
+  ): void {
+    const documentId = 'documentId' in data ? data.documentId : undefined;
+    this.sendFrame(ws, JSON.stringify({ type, data }), documentId);
+  }
+
+  /**
+   * Send a binary frame to a specific WebSocket
+   */
+  private sendBinary(ws: AuthenticatedWebSocket, payload: Uint8Array): void {
+    // Only frames that get chunked need their document ID
+    const documentId =
+      payload.length > collaborationConfig.chunkSizeBytes
+        ? decodeEnvelope(payload).documentId
+        : undefined;
+    this.sendFrame(ws, payload, documentId);
+  }
+
+  /**
+   * Send a frame, splitting it into chunks when it is too large for one. Chunks go out one per
+   * tick so a big sync doesn't monopolise the server, and later frames queue behind them to
+   * keep their order
+   */
+  private sendFrame(ws: AuthenticatedWebSocket, frame: ChunkData, documentId?: string): void {
+    if (ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const frames =
+      documentId !== undefined &&
+      frame.length > collaborationConfig.chunkSizeBytes &&
+      (ws.protocolVersion ?? LEGACY_PROTOCOL_VERSION) >= CHUNKED_PROTOCOL_VERSION
+        ? this.splitFrame(frame, documentId)
+        : [frame];
+
+    if (!ws.outbox && frames.length === 1) {
+      ws.send(frame, { binary: typeof frame !== 'string' });
+      return;
+    }
+
+    ws.outbox = [...(ws.outbox ?? []), ...frames];
+    this.scheduleOutboxDrain(ws, 0);
+  }
+
+  /**
+   * Wrap the slices of a large frame in chunk messages of the same encoding
+   */
+  private splitFrame(frame: ChunkData, documentId: string): ChunkData[] {
+    const transferId = createTransferId();
+    const chunks = splitMessage(frame, collaborationConfig.chunkSizeBytes);
+
+    return chunks.map((chunk, index) => {
+      const messageChunk = { transferId, index, count: chunks.length };
+      return typeof chunk === 'string'
+        ? JSON.stringify({
+            type: 'message-chunk',
+            data: { documentId, ...messageChunk, chunk },
+          } satisfies ServerMessage)
+        : encodeChunkMessage(documentId, { ...messageChunk, chunk });
+    });
+  }
+
+  /**
+   * Send the next queued frame after `delayMs`
+   */
+  private scheduleOutboxDrain(ws: AuthenticatedWebSocket, delayMs: number): void {
+    if (ws.outboxTimer) {
+      return;
+    }
+
+    ws.outboxTimer = setTimeout(() => {
+      delete ws.outboxTimer;
+      this.drainOutbox(ws);
+    }, delayMs);
+  }
+
+  /**
+   * Send one queued frame, waiting while the socket's send buffer is full
+   */
+  private drainOutbox(ws: AuthenticatedWebSocket): void {
+    if (ws.readyState !== WebSocket.OPEN) {
+      delete ws.outbox;
+      return;
+    }
+    if (this.isCongested(ws)) {
+      this.scheduleOutboxDrain(ws, FLUSH_RETRY_MS);
+      return;
+    }
+
+    const frame = ws.outbox?.shift();
+    if (frame !== undefined) {
+      ws.send(frame, { binary: typeof frame !== 'string' });
+    }
+
+    if (ws.outbox?.length) {
+      this.scheduleOutboxDrain(ws, 0);
+    } else {
+      delete ws.outbox;
     }
   }
 
+  /**
+   * Deliver a room message in the encoding the socket negotiated
+   */
+  private deliver(
+    socket: AuthenticatedWebSocket,
+    documentId: string,
+    type: string,
+    data: any
+  ): void {
+    const room = socket.rooms?.get(documentId);
+    if (room && typeof data?.update === 'string') {
+      const update = Buffer.from(data.update, 'base64');
+      if (type === 'yjs-update') {
+        this.deliverUpdate(socket, documentId, room, update, data.user);
+        return;
+      }
+      if (type === 'awareness-update') {
+        this.deliverAwareness(socket, documentId, room, update);
+        return;
+      }
+    }
+
+    // Room messages were built by broadcastToDocument on one of the instances
+    this.sendMessage(socket, type as ServerMessageType, data);
+  }
+
+  /**
+   * Send a Yjs update, holding it back and merging it with earlier held-back ones
+   * while the socket's send buffer is over its high-water mark
+   */
+  private deliverUpdate(
+    socket: AuthenticatedWebSocket,
+    documentId: string,
+    room: SocketRoom,
+    update: Uint8Array,
+    user?: ServerMessageData<'yjs-update'>['user']
+  ): void {
+    // The resync diff will include it
+    if (room.awaitingResync) {
+      return;
+    }
+
+    if (!room.pendingUpdate && !this.isCongested(socket)) {
+      this.sendUpdate(socket, documentId, update, user);
+      return;
+    }
+
+    room.pendingUpdate = room.pendingUpdate ? Y.mergeUpdates([room.pendingUpdate, update]) : update;
+
+    if (
+      socket.bufferedAmount + this.getPendingBytes(socket) >
+      collaborationConfig.sendBufferMaxBytes
+    ) {
+      this.handleSlowConsumer(socket);
+      return;
+    }
+
+    this.scheduleFlush(socket);
+  }
+
+  /**
+   * Send an awareness update, or mark the room stale while the socket is congested:
+   * only the latest cursors matter, so a snapshot replaces everything skipped
+   */
+  private deliverAwareness(
+    socket: AuthenticatedWebSocket,
+    documentId: string,
+    room: SocketRoom,
+    update: Uint8Array
+  ): void {
+    if (room.awarenessStale || this.isCongested(socket)) {
+      room.awarenessStale = true;
+      this.scheduleFlush(socket);
+      return;
+    }
+
+    this.sendAwareness(socket, documentId, update);
+  }
+
+  /**
+   * Send a Yjs update frame or message
+   */
+  private sendUpdate(
+    socket: AuthenticatedWebSocket,
+    documentId: string,
+    update: Uint8Array,
+    user?: ServerMessageData<'yjs-update'>['user']
+  ): void {
+    if (socket.binaryProtocol) {
+      this.sendBinary(socket, encodeSyncMessage(documentId, SYNC_UPDATE, update));
+      return;
+    }
+
+    this.sendMessage(socket, 'yjs-update', {
+      documentId,
+      update: Buffer.from(update).toString('base64'),
+      ...(user && { user }),
+    });
+  }
+
+  /**
+   * Send an awareness frame or message
+   */
+  private sendAwareness(
+    socket: AuthenticatedWebSocket,
+    documentId: string,
+    update: Uint8Array
+  ): void {
+    if (socket.binaryProtocol) {
+      this.sendBinary(socket, encodeAwarenessMessage(documentId, update));
+      return;
+    }
+
+    this.sendMessage(socket, 'awareness-update', {
+      documentId,
+      update: Buffer.from(update).toString('base64'),
+    });
+  }
+
+  /**
+   * Check whether a socket has more unsent data than room traffic should pile onto
+   */
+  private isCongested(socket: AuthenticatedWebSocket): boolean {
+    return socket.bufferedAmount >= collaborationConfig.sendBufferHighWaterBytes;
+  }
+
+  /**
+   * Total size of the Yjs updates held back for a socket and of its queued frames
+   */
+  private getPendingBytes(socket: AuthenticatedWebSocket): number {
+    let bytes = 0;
+    for (const frame of socket.outbox ?? []) {
+      bytes += frame.length;
+    }
+    for (const room of socket.rooms?.values() ?? []) {
+      bytes += room.pendingUpdate?.length ?? 0;
+    }
+    return bytes;
+  }
+
+  /**
+   * Retry held-back room traffic once the send buffer had time to drain
+   */
+  private scheduleFlush(socket: AuthenticatedWebSocket): void {
+    if (socket.flushTimer) {
+      return;
+    }
+
+    socket.flushTimer = setTimeout(() => {
+      delete socket.flushTimer;
+      this.flushPending(socket);
+    }, FLUSH_RETRY_MS);
+  }
+
+  /**
+   * Send the merged updates and awareness snapshots held back for a socket
+   */
+  private flushPending(socket: AuthenticatedWebSocket): void {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    if (this.isCongested(socket)) {
+      this.scheduleFlush(socket);
+      return;
+    }
+
+    for (const [documentId, room] of socket.rooms ?? []) {
+      if (room.pendingUpdate) {
+        const update = room.pendingUpdate;
+        delete room.pendingUpdate;
+        this.sendUpdate(socket, documentId, update);
+      }
+
+      if (room.awarenessStale) {
+        room.awarenessStale = false;
+        const snapshot = AwarenessService.getSnapshot(documentId);
+        if (snapshot) {
+          this.sendAwareness(socket, documentId, snapshot);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop buffering for a socket that fell too far behind. Depending on the policy it drops the
+   * held-back updates and asks the client to resync, or is disconnected and resyncs on reconnect
+   */
+  private handleSlowConsumer(socket: AuthenticatedWebSocket): void {
+    const canResync =
+      collaborationConfig.slowConsumerPolicy === 'resync' &&
+      (socket.protocolVersion ?? LEGACY_PROTOCOL_VERSION) >= RESYNC_PROTOCOL_VERSION &&
+      // The resync diff has to fit in the buffer too
+      socket.bufferedAmount < collaborationConfig.sendBufferMaxBytes;
+
+    if (!canResync) {
+      console.warn(
+        `🐢 Disconnecting slow consumer ${socket.socketId} of ${socket.username} (${socket.userId}) with ${socket.bufferedAmount} bytes unsent`
+      );
+      socket.terminate();
+      return;
+    }
+
+    console.warn(
+      `🐢 Dropping held-back updates for slow consumer ${socket.socketId} of ${socket.username} (${socket.userId}), requesting resync`
+    );
+    for (const [documentId, room] of socket.rooms ?? []) {
+      if (!room.pendingUpdate) {
+        continue;
+      }
+
+      delete room.pendingUpdate;
+      room.awaitingResync = true;
+      this.sendMessage(socket, 'resync-required', { documentId, reason: 'slow-consumer' });
+    }
+  }
+
+  /**
+   * Check whether the socket's cached role allows editing a joined document
+   */
+  private canEdit(ws: AuthenticatedWebSocket, documentId: string): boolean {
+    const role = ws.rooms?.get(documentId)?.role;
+    return role === 'owner' || role === 'editor';
+  }
+
+  /**
+   * Look up a room the socket has joined, telling the client when it hasn't
+   */
+  private getJoinedRoom(ws: AuthenticatedWebSocket, documentId: string): SocketRoom | undefined {
+    const room = ws.rooms?.get(documentId);
+    if (!room) {
+      this.sendError(ws, 'NOT_JOINED', 'Not joined to this document', { documentId });
+    }
+    return room;
+  }
+
+  /**
+   * Decode an optional base64 field from a JSON message
+   */
+  private decodeBase64(value: unknown): Uint8Array | undefined {
+    return typeof value === 'string' ? Buffer.from(value, 'base64') : undefined;
+  }
+
   /**
    * Send error message to a specific WebSocket
    */
-  private sendError(ws: AuthenticatedWebSocket, message: string): void {
-    this.sendMessage(ws, 'error', { message });
+  private sendError(
+    ws: AuthenticatedWebSocket,
+    code: ErrorCode,
+    message: string,
+    details: Omit<ServerMessageData<'error'>, 'code' | 'message'> = {}
+  ): void {
+    this.sendMessage(ws, 'error', { code, message, ...details });
   }
 
   /**
    * Broadcast message to all users in a document
    */
-  async broadcastToDocument(
+  async broadcastToDocument<T extends ServerMessageType>(
     documentId: string,
-    type: string,
-    data: any,
-    excludeUserId?: string
+    type: T,
+    data: ServerMessageData<T>,
+    excludeSocketId?: string
   ): Promise<void> {
-    await RedisPubSubService.publish(`channel:${documentId}`, { type, data });
+    await RoomRouterService.publish(documentId, type, data, {
+      ...(excludeSocketId && { originSocketId: excludeSocketId, excludeSocketId }),
+    });
+  }
+
+  /**
+   * Push a Yjs update made outside any socket (such as a version restore) to everyone
+   * in the document, on every instance. The update must already be applied and stored
+   */
+  async broadcastDocumentUpdate(
+    documentId: string,
+    update: Uint8Array,
+    user?: { userId: string; username: string }
+  ): Promise<void> {
+    await this.broadcastToDocument(documentId, 'yjs-update', {
+      documentId,
+      update: Buffer.from(update).toString('base64'),
+      ...(user && { user }),
+    });
+  }
+
+  /**
+   * Deliver a routed room message to this instance's sockets in the room
+   */
+  private deliverToRoom(documentId: string, message: RoomMessage): void {
+    // Updates from this instance were already applied before they were published
+    if (
+      message.type === 'yjs-update' &&
+      typeof message.data?.update === 'string' &&
+      !RoomRouterService.isLocalOrigin(message)
+    ) {
+      YjsDocumentService.applyRemoteUpdate(documentId, Buffer.from(message.data.update, 'base64'));
+    }
 
-    const sessions = await ActiveSessionsService.getDocumentSessions(documentId);
+    if (
+      message.type === 'awareness-update' &&
+      typeof message.data?.update === 'string' &&
+      !RoomRouterService.isLocalOrigin(message)
+    ) {
+      AwarenessService.applyUpdate(documentId, Buffer.from(message.data.update, 'base64'));
+    }
 
-    for (const session of sessions) {
-      if (excludeUserId && session.userId === excludeUserId) {
+    for (const socket of this.socketConnections.values()) {
+      // Exclude only the sending socket; the sender's other tabs still need the message
+      if (socket.socketId === message.excludeSocketId) {
         continue;
       }
 
-      const socket = this.socketConnections.get(session.socketId);
-      if (socket && socket.readyState === WebSocket.OPEN) {
-        this.sendMessage(socket, type, data);
+      if (socket.rooms?.has(documentId) && socket.readyState === WebSocket.OPEN) {
+        this.deliver(socket, documentId, message.type, message.data);
       }
     }
   }
@@ -353,14 +1471,26 @@ export class WebSocketService {
    * Get users currently connected to a document
    */
   async getDocumentUsers(documentId: string): Promise<DocumentUser[]> {
-    const sessions = await ActiveSessionsService.getDocumentSessions(documentId);
-    return sessions.map(session => ({
-      userId: session.userId,
-      username: session.username,
-      socketId: session.socketId,
+    const users = await ActiveSessionsService.getDocumentUsers(documentId);
+    return users.map(user => ({
+      userId: user.userId,
+      username: user.username,
+      socketIds: user.socketIds,
     }));
   }
 
+  /**
+   * Check whether any socket on this instance is still in a document
+   */
+  private hasLocalSockets(documentId: string): boolean {
+    for (const socket of this.socketConnections.values()) {
+      if (socket.rooms?.has(documentId)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * Generate a unique socket ID
    */
@@ -394,6 +1524,11 @@ export class WebSocketService {
    * Close WebSocket server
    */
   close(): Promise<void> {
+    if (this.heartbeatInterval) {
+      clearInterval(this.heartbeatInterval);
+      this.heartbeatInterval = null;
+    }
+
     return new Promise(resolve => {
       if (this.wss) {
         this.wss.close(() => {
@@ -409,14 +1544,7 @@ export class WebSocketService {
   /**
    * Get rate limit statistics for monitoring
    */
-  async getRateLimitStats(): Promise<
-    {
-      userId: string;
-      messageType: string;
-      count: number;
-      blockedUntil?: number;
-    }[]
-  > {
+  async getRateLimitStats(): Promise<RateLimitStat[]> {
     return await RateLimitService.getRateLimitStats();
   }
 
@@ -430,22 +1558,7 @@ export class WebSocketService {
   /**
    * Get current rate limit configuration
    */
-  getRateLimitConfig(): Record<string, RateLimitConfig> {
-    const config: Record<string, RateLimitConfig> = {};
-    for (const [messageType, rateLimitConfig] of this.rateLimitConfigs.entries()) {
-      config[messageType] = { ...rateLimitConfig };
-    }
-    return config;
-  }
-
-  private async handlePubSubMessage(message: PubSubMessage, channel: string) {
-    const documentId = channel.replace('channel:', '');
-    console.log(`📡 Received Pub/Sub message: ${message.type} for document ${documentId}`);
-
-    for (const [, socket] of this.socketConnections.entries()) {
-      if (socket.documentId === documentId && socket.readyState === WebSocket.OPEN) {
-        this.sendMessage(socket, message.type, message.data);
-      }
-    }
+  getRateLimitConfig(): WebSocketRateLimitConfig {
+    return wsRateLimitConfig;
   }
 }
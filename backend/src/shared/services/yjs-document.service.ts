@@ -0,0 +1,528 @@
+import * as Y from 'yjs';
+import { computeDocumentChecksum } from '@sync-text/protocol';
+import { collaboration as collaborationConfig } from '../../config';
+import { quillDeltaToHtml, QuillDeltaOp } from '../utils/quill-delta.utils';
+import { PrismaService } from './prisma.service';
+import { RedisService } from './redis.service';
+
+const prisma = PrismaService.getClient();
+
+export type DivergenceReason = 'server-missing-updates' | 'checksum-mismatch';
+
+export interface StateCheckResult {
+  inSync: boolean;
+  // Only set when the server is at fault or both sides hold the same updates but disagree
+  divergence?: DivergenceReason;
+  serverStateVector: Uint8Array;
+  serverChecksum: string;
+}
+
+export interface DocumentSnapshot {
+  state: Uint8Array;
+  content: string;
+}
+
+export type DocumentIdleHandler = (documentId: string) => void;
+
+// An update was applied in memory but couldn't be appended to the update log
+export class YjsStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'YjsStorageError';
+  }
+}
+
+interface StoredDocument {
+  doc: Y.Doc;
+  hasStoredState: boolean;
+  pendingUpdates: number;
+}
+
+interface YjsRoom {
+  doc: Y.Doc;
+  dirty: boolean;
+  hasStoredState: boolean;
+  seedClaimedBy: string | null;
+  persistTimeout: NodeJS.Timeout | null;
+  firstDirtyAt: number | null;
+  idleTimeout: NodeJS.Timeout | null;
+}
+
+export class YjsDocumentService {
+  static readonly TEXT_NAME = 'quill';
+  private static readonly STORAGE_ORIGIN = 'storage';
+  private static rooms: Map<string, YjsRoom> = new Map();
+  private static loading: Map<string, Promise<YjsRoom>> = new Map();
+  private static idleHandler: DocumentIdleHandler | null = null;
+
+  /**
+   * Register what happens once a document edited on this instance has gone quiet
+   */
+  static setIdleHandler(handler: DocumentIdleHandler): void {
+    this.idleHandler = handler;
+  }
+
+  /**
+   * Get the in-memory Y.Doc for a document, hydrating it from Postgres on first use
+   */
+  static async getDocument(documentId: string): Promise<Y.Doc> {
+    const room = await this.getRoom(documentId);
+    return room.doc;
+  }
+
+  /**
+   * Check whether a document is currently held in memory
+   */
+  static isLoaded(documentId: string): boolean {
+    return this.rooms.has(documentId);
+  }
+
+  /**
+   * Encode the server state of a document as a single Yjs update, optionally
+   * limited to what a peer with the given state vector is missing
+   */
+  static async getStateUpdate(documentId: string, stateVector?: Uint8Array): Promise<Uint8Array> {
+    const room = await this.getRoom(documentId);
+    return Y.encodeStateAsUpdate(room.doc, stateVector);
+  }
+
+  /**
+   * Encode the server state vector of a document
+   */
+  static async getStateVector(documentId: string): Promise<Uint8Array> {
+    const room = await this.getRoom(documentId);
+    return Y.encodeStateVector(room.doc);
+  }
+
+  /**
+   * Apply an update received from a local client and append it to the update log.
+   * Throws YjsStorageError when only the log write failed
+   */
+  static async applyUpdate(documentId: string, update: Uint8Array, origin: unknown): Promise<void> {
+    const room = await this.getRoom(documentId);
+
+    if (this.isEmptyUpdate(update)) {
+      return;
+    }
+
+    Y.applyUpdate(room.doc, update, origin);
+    // The room holds the edit from here on, so it is compacted even if the log write fails
+    room.hasStoredState = true;
+    this.markDirty(documentId, room);
+
+    try {
+      await prisma.documentUpdate.create({
+        data: {
+          documentId,
+          update: Buffer.from(update),
+        },
+      });
+    } catch (error) {
+      console.error(`❌ Failed to store Yjs update for document ${documentId}:`, error);
+      throw new YjsStorageError('Failed to store Yjs update');
+    }
+  }
+
+  /**
+   * Apply an update relayed from another instance; that instance owns its log entry
+   */
+  static applyRemoteUpdate(documentId: string, update: Uint8Array): void {
+    const room = this.rooms.get(documentId);
+    if (!room) {
+      return;
+    }
+
+    try {
+      Y.applyUpdate(room.doc, update, this.STORAGE_ORIGIN);
+      room.hasStoredState = true;
+    } catch (error) {
+      console.error(`Failed to apply remote Yjs update for document ${documentId}:`, error);
+    }
+  }
+
+  /**
+   * Grant a single joiner the right to seed a never-edited document from its HTML content
+   */
+  static async claimSeed(documentId: string, socketId: string): Promise<boolean> {
+    const room = await this.getRoom(documentId);
+
+    if (room.hasStoredState || room.doc.getText(this.TEXT_NAME).length > 0) {
+      return false;
+    }
+
+    if (room.seedClaimedBy && room.seedClaimedBy !== socketId) {
+      return false;
+    }
+
+    room.seedClaimedBy = socketId;
+    return true;
+  }
+
+  /**
+   * Release a seed claim held by a socket that left before seeding
+   */
+  static releaseSeed(documentId: string, socketId: string): void {
+    const room = this.rooms.get(documentId);
+    if (room && room.seedClaimedBy === socketId) {
+      room.seedClaimedBy = null;
+    }
+  }
+
+  /**
+   * Compact the document into DocumentState and derive Document.content from it
+   */
+  static async persistDocument(documentId: string): Promise<void> {
+    const room = this.rooms.get(documentId);
+    if (!room) {
+      return;
+    }
+
+    this.clearPersistTimeout(room);
+
+    if (!room.dirty) {
+      return;
+    }
+
+    room.dirty = false;
+    room.firstDirtyAt = null;
+
+    try {
+      const document = await prisma.$transaction(async tx => {
+        const [storedState, storedUpdates] = await Promise.all([
+          tx.documentState.findUnique({ where: { documentId } }),
+          tx.documentUpdate.findMany({ where: { documentId }, orderBy: { id: 'asc' } }),
+        ]);
+
+        // Fold in anything other instances stored since this room was hydrated
+        if (storedState) {
+          Y.applyUpdate(room.doc, storedState.state, this.STORAGE_ORIGIN);
+        }
+        for (const storedUpdate of storedUpdates) {
+          Y.applyUpdate(room.doc, storedUpdate.update, this.STORAGE_ORIGIN);
+        }
+
+        const state = Buffer.from(Y.encodeStateAsUpdate(room.doc));
+        const stateVector = Buffer.from(Y.encodeStateVector(room.doc));
+
+        await tx.documentState.upsert({
+          where: { documentId },
+          create: { documentId, state, stateVector },
+          update: { state, stateVector },
+        });
+
+        if (storedUpdates.length > 0) {
+          await tx.documentUpdate.deleteMany({
+            where: { id: { in: storedUpdates.map(storedUpdate => storedUpdate.id) } },
+          });
+        }
+
+        // Live edits have no edit history entry, so they leave `revision` to saved updates
+        return tx.document.update({
+          where: { id: documentId },
+          data: { content: this.renderContent(room.doc), liveRevision: { increment: 1 } },
+          select: { title: true, content: true },
+        });
+      });
+
+      await RedisService.cacheDocumentContent(documentId, document.content, document.title);
+      console.log(`💾 Persisted Yjs state for document ${documentId}`);
+    } catch (error) {
+      console.error(`Failed to persist Yjs state for document ${documentId}:`, error);
+      this.markDirty(documentId, room);
+    }
+  }
+
+  /**
+   * Persist and drop a document once no local sockets are editing it. `canRelease` is asked
+   * again after persisting, since a socket may have joined meanwhile; the document then stays
+   */
+  static async releaseDocument(
+    documentId: string,
+    canRelease: () => boolean = () => true
+  ): Promise<void> {
+    const room = this.rooms.get(documentId);
+    if (!room) {
+      return;
+    }
+
+    await this.persistDocument(documentId);
+    if (this.rooms.get(documentId) !== room || !canRelease()) {
+      return;
+    }
+
+    // Everyone left before the idle period ran out, which makes the document idle now
+    const wasPendingIdle = room.idleTimeout !== null;
+    this.clearPersistTimeout(room);
+    this.clearIdleTimeout(room);
+    room.doc.destroy();
+    this.rooms.delete(documentId);
+    console.log(`📤 Released Yjs document ${documentId} from memory`);
+
+    if (wasPendingIdle) {
+      this.idleHandler?.(documentId);
+    }
+  }
+
+  /**
+   * Drop a document from memory without persisting it (used once it has been deleted)
+   */
+  static discardDocument(documentId: string): void {
+    const room = this.rooms.get(documentId);
+    if (!room) {
+      return;
+    }
+
+    this.clearPersistTimeout(room);
+    this.clearIdleTimeout(room);
+    room.doc.destroy();
+    this.rooms.delete(documentId);
+    console.log(`🗑️ Discarded Yjs document ${documentId} from memory`);
+  }
+
+  /**
+   * Persist every dirty document (used on shutdown)
+   */
+  static async persistAll(): Promise<void> {
+    await Promise.all(
+      Array.from(this.rooms.keys()).map(documentId => this.persistDocument(documentId))
+    );
+  }
+
+  /**
+   * Capture the current Yjs state of a document with its HTML rendering, or null if the
+   * document has never been edited collaboratively (its content then lives only in Postgres)
+   */
+  static async getSnapshot(documentId: string): Promise<DocumentSnapshot | null> {
+    const room = this.rooms.get(documentId);
+    if (room) {
+      return room.hasStoredState ? this.captureSnapshot(room.doc) : null;
+    }
+
+    const { doc, hasStoredState } = await this.readStoredDocument(documentId);
+    const snapshot = hasStoredState ? this.captureSnapshot(doc) : null;
+    doc.destroy();
+    return snapshot;
+  }
+
+  /**
+   * Replace the shared text with the text of an earlier snapshot. The change is made as an
+   * ordinary edit on top of the current state, stored and persisted straight away, and the
+   * resulting update is returned for fanning out to connected clients.
+   */
+  static async replaceContent(
+    documentId: string,
+    snapshotState: Uint8Array,
+    origin: unknown
+  ): Promise<Uint8Array> {
+    const room = this.rooms.get(documentId);
+    const doc = room ? room.doc : (await this.readStoredDocument(documentId)).doc;
+
+    const snapshot = new Y.Doc();
+    Y.applyUpdate(snapshot, snapshotState, this.STORAGE_ORIGIN);
+    const delta = snapshot.getText(this.TEXT_NAME).toDelta();
+    snapshot.destroy();
+
+    const stateVector = Y.encodeStateVector(doc);
+    doc.transact(() => {
+      const text = doc.getText(this.TEXT_NAME);
+      text.delete(0, text.length);
+      text.applyDelta(delta);
+    }, origin);
+    const update = Y.encodeStateAsUpdate(doc, stateVector);
+
+    try {
+      await prisma.documentUpdate.create({
+        data: {
+          documentId,
+          update: Buffer.from(update),
+        },
+      });
+
+      if (room) {
+        room.hasStoredState = true;
+        room.dirty = true;
+        await this.persistDocument(documentId);
+      } else {
+        // Not open here: the log entry is the stored state, only the rendering needs refreshing
+        const document = await prisma.document.update({
+          where: { id: documentId },
+          data: { content: this.renderContent(doc), liveRevision: { increment: 1 } },
+          select: { title: true, content: true },
+        });
+        await RedisService.cacheDocumentContent(documentId, document.content, document.title);
+      }
+    } finally {
+      if (!room) {
+        doc.destroy();
+      }
+    }
+
+    return update;
+  }
+
+  /**
+   * Compare a client's state vector and checksum with the server document. A client that is
+   * merely behind (updates still in flight) is out of sync but not divergent; a server missing
+   * updates the client had acked, or equal state vectors with different content, is divergence.
+   */
+  static async checkState(
+    documentId: string,
+    clientStateVector: Uint8Array,
+    clientChecksum: string
+  ): Promise<StateCheckResult> {
+    const room = await this.getRoom(documentId);
+    const serverState = Y.decodeStateVector(Y.encodeStateVector(room.doc));
+    const clientState = Y.decodeStateVector(clientStateVector);
+
+    const serverMissing = Array.from(clientState).some(
+      ([clientId, clock]) => clock > (serverState.get(clientId) ?? 0)
+    );
+    const clientMissing = Array.from(serverState).some(
+      ([clientId, clock]) => clock > (clientState.get(clientId) ?? 0)
+    );
+    const serverChecksum = computeDocumentChecksum(room.doc, this.TEXT_NAME);
+
+    const result: StateCheckResult = {
+      inSync: !serverMissing && !clientMissing && serverChecksum === clientChecksum,
+      serverStateVector: Y.encodeStateVector(room.doc),
+      serverChecksum,
+    };
+
+    if (serverMissing) {
+      result.divergence = 'server-missing-updates';
+    } else if (!clientMissing && !result.inSync) {
+      result.divergence = 'checksum-mismatch';
+    }
+
+    return result;
+  }
+
+  /**
+   * Render the shared Quill text as HTML
+   */
+  static renderContent(doc: Y.Doc): string {
+    const delta = doc.getText(this.TEXT_NAME).toDelta() as QuillDeltaOp[];
+    return quillDeltaToHtml(delta);
+  }
+
+  /**
+   * An update with no structs and no deletions encodes to two zero bytes
+   */
+  static isEmptyUpdate(update: Uint8Array): boolean {
+    return update.length === 2 && update[0] === 0 && update[1] === 0;
+  }
+
+  private static captureSnapshot(doc: Y.Doc): DocumentSnapshot {
+    return { state: Y.encodeStateAsUpdate(doc), content: this.renderContent(doc) };
+  }
+
+  private static async getRoom(documentId: string): Promise<YjsRoom> {
+    const existing = this.rooms.get(documentId);
+    if (existing) {
+      return existing;
+    }
+
+    let pending = this.loading.get(documentId);
+    if (!pending) {
+      pending = this.loadRoom(documentId).finally(() => {
+        this.loading.delete(documentId);
+      });
+      this.loading.set(documentId, pending);
+    }
+
+    return pending;
+  }
+
+  private static async loadRoom(documentId: string): Promise<YjsRoom> {
+    const { doc, hasStoredState, pendingUpdates } = await this.readStoredDocument(documentId);
+
+    const room: YjsRoom = {
+      doc,
+      dirty: false,
+      hasStoredState,
+      seedClaimedBy: null,
+      persistTimeout: null,
+      firstDirtyAt: null,
+      idleTimeout: null,
+    };
+
+    this.rooms.set(documentId, room);
+    console.log(`📥 Hydrated Yjs document ${documentId} (${pendingUpdates} pending log entries)`);
+
+    return room;
+  }
+
+  /**
+   * Rebuild a document from its compacted state and update log
+   */
+  private static async readStoredDocument(documentId: string): Promise<StoredDocument> {
+    const [storedState, storedUpdates] = await Promise.all([
+      prisma.documentState.findUnique({ where: { documentId } }),
+      prisma.documentUpdate.findMany({ where: { documentId }, orderBy: { id: 'asc' } }),
+    ]);
+
+    const doc = new Y.Doc();
+    if (storedState) {
+      Y.applyUpdate(doc, storedState.state, this.STORAGE_ORIGIN);
+    }
+    for (const storedUpdate of storedUpdates) {
+      Y.applyUpdate(doc, storedUpdate.update, this.STORAGE_ORIGIN);
+    }
+
+    return {
+      doc,
+      hasStoredState: storedState !== null || storedUpdates.length > 0,
+      pendingUpdates: storedUpdates.length,
+    };
+  }
+
+  private static markDirty(documentId: string, room: YjsRoom): void {
+    room.dirty = true;
+    const now = Date.now();
+    room.firstDirtyAt = room.firstDirtyAt ?? now;
+
+    this.clearPersistTimeout(room);
+
+    const maxWaitRemaining = collaborationConfig.persistMaxWaitMs - (now - room.firstDirtyAt);
+    const delay = Math.max(0, Math.min(collaborationConfig.persistDebounceMs, maxWaitRemaining));
+
+    room.persistTimeout = setTimeout(() => {
+      room.persistTimeout = null;
+      this.persistDocument(documentId).catch(error => {
+        console.error(`Failed to persist document ${documentId}:`, error);
+      });
+    }, delay);
+
+    this.scheduleIdle(documentId, room);
+  }
+
+  /**
+   * Restart the countdown to the document being idle after an edit
+   */
+  private static scheduleIdle(documentId: string, room: YjsRoom): void {
+    this.clearIdleTimeout(room);
+
+    if (collaborationConfig.versionIdleMs <= 0) {
+      return;
+    }
+
+    room.idleTimeout = setTimeout(() => {
+      room.idleTimeout = null;
+      this.idleHandler?.(documentId);
+    }, collaborationConfig.versionIdleMs);
+  }
+
+  private static clearIdleTimeout(room: YjsRoom): void {
+    if (room.idleTimeout) {
+      clearTimeout(room.idleTimeout);
+      room.idleTimeout = null;
+    }
+  }
+
+  private static clearPersistTimeout(room: YjsRoom): void {
+    if (room.persistTimeout) {
+      clearTimeout(room.persistTimeout);
+      room.persistTimeout = null;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+/**
+ * Strong entity tag for a document: its revision plus its live revision, so cached copies go
+ * stale with saved updates and live edits alike
+ */
+export const toDocumentETag = (revision: number, liveRevision: number): string =>
+  `"${revision}.${liveRevision}"`;
+
+/**
+ * Document revision an entity tag was issued for (`"12.40"`, or just `"12"`), or null for
+ * tags this server didn't issue. Weak tags never match, since If-Match uses strong comparison
+ */
+export const parseRevisionETag = (tag: string): number | null => {
+  const match = /^"(\d+)(?:\.\d+)?"$/.exec(tag.trim());
+  return match ? Number(match[1]) : null;
+};
+
+/**
+ * Whether an If-Match header is satisfied by the current revision. `*` matches any existing
+ * representation. Only the revision part of a tag is compared: live edits keep bumping the
+ * live revision, and REST content writes that would clash with them are rejected separately
+ */
+export const matchesIfMatch = (header: string, revision: number): boolean =>
+  header
+    .split(',')
+    .map(tag => tag.trim())
+    .some(tag => tag === '*' || parseRevisionETag(tag) === revision);
@@ -0,0 +1,138 @@
+export interface QuillDeltaOp {
+  insert?: string | Record<string, unknown>;
+  attributes?: Record<string, unknown>;
+}
+
+interface QuillLine {
+  html: string;
+  attributes: Record<string, unknown>;
+}
+
+const escapeHtml = (value: string): string =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Wrap a text run in the inline formats Quill's toolbar can produce
+ */
+const renderInline = (text: string, attributes: Record<string, unknown> = {}): string => {
+  let html = escapeHtml(text);
+
+  if (attributes.code) html = `<code>${html}</code>`;
+  if (attributes.script === 'sub') html = `<sub>${html}</sub>`;
+  if (attributes.script === 'super') html = `<sup>${html}</sup>`;
+  if (attributes.strike) html = `<s>${html}</s>`;
+  if (attributes.underline) html = `<u>${html}</u>`;
+  if (attributes.italic) html = `<em>${html}</em>`;
+  if (attributes.bold) html = `<strong>${html}</strong>`;
+  if (typeof attributes.link === 'string') {
+    html = `<a href="${escapeHtml(attributes.link)}" rel="noopener noreferrer" target="_blank">${html}</a>`;
+  }
+
+  return html;
+};
+
+const renderEmbed = (embed: Record<string, unknown>): string => {
+  if (typeof embed.image === 'string') {
+    return `<img src="${escapeHtml(embed.image)}">`;
+  }
+  if (typeof embed.video === 'string') {
+    return `<iframe class="ql-video" frameborder="0" allowfullscreen="true" src="${escapeHtml(embed.video)}"></iframe>`;
+  }
+  return '';
+};
+
+const renderBlockClasses = (attributes: Record<string, unknown>): string => {
+  const classes: string[] = [];
+  if (typeof attributes.align === 'string') classes.push(`ql-align-${attributes.align}`);
+  if (typeof attributes.indent === 'number') classes.push(`ql-indent-${attributes.indent}`);
+  return classes.length > 0 ? ` class="${classes.join(' ')}"` : '';
+};
+
+/**
+ * Split a delta into Quill lines; block formats live on the trailing newline
+ */
+const toLines = (ops: QuillDeltaOp[]): QuillLine[] => {
+  const lines: QuillLine[] = [];
+  let current = '';
+
+  for (const op of ops) {
+    if (typeof op.insert === 'string') {
+      const parts = op.insert.split('\n');
+      parts.forEach((part, index) => {
+        if (part.length > 0) {
+          current += renderInline(part, op.attributes);
+        }
+        if (index < parts.length - 1) {
+          lines.push({ html: current, attributes: op.attributes || {} });
+          current = '';
+        }
+      });
+    } else if (op.insert) {
+      current += renderEmbed(op.insert);
+    }
+  }
+
+  if (current.length > 0) {
+    lines.push({ html: current, attributes: {} });
+  }
+
+  return lines;
+};
+
+const CONTAINER_TAGS = {
+  list: { open: '<ol>', close: '</ol>' },
+  code: { open: '<div class="ql-code-block-container" spellcheck="false">', close: '</div>' },
+};
+
+type ContainerType = keyof typeof CONTAINER_TAGS;
+
+/**
+ * Render a Quill delta (as produced by Y.Text#toDelta) into the HTML Quill itself emits
+ */
+export const quillDeltaToHtml = (ops: QuillDeltaOp[]): string => {
+  const lines = toLines(ops);
+  let html = '';
+  // Consecutive list items and code block lines share one container element
+  let openContainer: ContainerType | null = null;
+
+  const enterContainer = (container: ContainerType | null): void => {
+    if (openContainer === container) return;
+    if (openContainer) html += CONTAINER_TAGS[openContainer].close;
+    if (container) html += CONTAINER_TAGS[container].open;
+    openContainer = container;
+  };
+
+  for (const line of lines) {
+    const { attributes } = line;
+    const content = line.html.length > 0 ? line.html : '<br>';
+    const classes = renderBlockClasses(attributes);
+
+    if (typeof attributes.list === 'string') {
+      enterContainer('list');
+      html += `<li data-list="${escapeHtml(attributes.list)}"${classes}><span class="ql-ui" contenteditable="false"></span>${content}</li>`;
+      continue;
+    }
+
+    if (attributes['code-block']) {
+      enterContainer('code');
+      const language =
+        typeof attributes['code-block'] === 'string' ? attributes['code-block'] : 'plain';
+      html += `<div class="ql-code-block" data-language="${escapeHtml(language)}">${content}</div>`;
+      continue;
+    }
+
+    enterContainer(null);
+
+    if (typeof attributes.header === 'number') {
+      html += `<h${attributes.header}${classes}>${content}</h${attributes.header}>`;
+    } else if (attributes.blockquote) {
+      html += `<blockquote${classes}>${content}</blockquote>`;
+    } else {
+      html += `<p${classes}>${content}</p>`;
+    }
+  }
+
+  enterContainer(null);
+
+  return html.length > 0 ? html : '<p><br></p>';
+};
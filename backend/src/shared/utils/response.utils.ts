@@ -143,6 +143,14 @@ export class ResponseHelper {
     this.error(res, message, 409, 'CONFLICT');
   }
 
+  static preconditionFailed(
+    res: Response,
+    message: string = 'Precondition failed',
+    details?: any
+  ): void {
+    this.error(res, message, 412, 'PRECONDITION_FAILED', details);
+  }
+
   static validationError(
     res: Response,
     message: string = 'Validation failed',
@@ -0,0 +1,240 @@
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+  type: DiffOperation;
+  text: string;
+}
+
+export interface DiffStats {
+  insertedWords: number;
+  deletedWords: number;
+  unchangedWords: number;
+}
+
+// Words, runs of whitespace and single punctuation marks each form one token
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+const WORD_PATTERN = /[\p{L}\p{N}]/u;
+
+// Beyond this many word edits the remaining middle is shown as replaced wholesale,
+// which keeps the edit graph trace (quadratic in the edit distance) small
+const MAX_EDIT_DISTANCE = 2000;
+
+const BLOCK_END_PATTERN = /<\/(p|h[1-6]|li|blockquote|pre|div)>|<br\s*\/?>/gi;
+const TAG_PATTERN = /<[^>]*>/g;
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  nbsp: ' ',
+  '#39': "'",
+};
+
+/**
+ * Reduce Quill HTML to plain text, one line per block, so it can be diffed word by word
+ */
+export const htmlToText = (html: string): string =>
+  html
+    // Quill fills empty blocks with a lone <br>
+    .replace(/<br\s*\/?>(?=<\/)/gi, '')
+    .replace(BLOCK_END_PATTERN, '\n')
+    .replace(TAG_PATTERN, '')
+    .replace(/&(amp|lt|gt|quot|nbsp|#39);/g, (_, entity: string) => ENTITIES[entity] ?? '')
+    .replace(/\n+$/, '');
+
+/**
+ * Whether two HTML renderings carry the same text, ignoring markup and how whitespace is laid out
+ */
+export const hasSameText = (a: string, b: string): boolean => {
+  const normalize = (html: string) => htmlToText(html).replace(/\s+/g, ' ').trim();
+  return normalize(a) === normalize(b);
+};
+
+/**
+ * Diff two texts word by word. Equal, deleted and inserted runs come back in reading order,
+ * so the segments without insertions spell `from` and the segments without deletions spell `to`
+ */
+export const diffWords = (from: string, to: string): DiffSegment[] => {
+  const a = from.match(TOKEN_PATTERN) ?? [];
+  const b = to.match(TOKEN_PATTERN) ?? [];
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const segments: DiffSegment[] = [];
+  appendTokens(segments, 'equal', a.slice(0, start));
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const edits = diffTokens(middleA, middleB);
+  if (edits) {
+    for (const [type, token] of edits) {
+      appendTokens(segments, type, [token]);
+    }
+  } else {
+    appendTokens(segments, 'delete', middleA);
+    appendTokens(segments, 'insert', middleB);
+  }
+
+  appendTokens(segments, 'equal', a.slice(endA));
+  return segments;
+};
+
+/**
+ * Count the words in each kind of segment
+ */
+export const countDiffWords = (segments: DiffSegment[]): DiffStats => {
+  const stats: DiffStats = { insertedWords: 0, deletedWords: 0, unchangedWords: 0 };
+
+  for (const { type, text } of segments) {
+    const words = (text.match(TOKEN_PATTERN) ?? []).filter(token =>
+      WORD_PATTERN.test(token)
+    ).length;
+    if (type === 'insert') stats.insertedWords += words;
+    else if (type === 'delete') stats.deletedWords += words;
+    else stats.unchangedWords += words;
+  }
+
+  return stats;
+};
+
+const appendTokens = (segments: DiffSegment[], type: DiffOperation, tokens: string[]): void => {
+  if (tokens.length === 0) {
+    return;
+  }
+
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += tokens.join('');
+  } else {
+    segments.push({ type, text: tokens.join('') });
+  }
+};
+
+/**
+ * Myers' shortest edit script over two token lists, or null once it would exceed MAX_EDIT_DISTANCE.
+ * trace[d] holds the furthest x reached on each diagonal k (offset by d) after d edits
+ */
+const diffTokens = (a: string[], b: string[]): [DiffOperation, string][] | null => {
+  const n = a.length;
+  const m = b.length;
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= Math.min(offset, MAX_EDIT_DISTANCE); d++) {
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1]! < v[offset + k + 1]!)
+          ? v[offset + k + 1]!
+          : v[offset + k - 1]! + 1;
+      let y = x - k;
+
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        trace.push(v.slice(offset - d, offset + d + 1));
+        return backtrack(trace, a, b);
+      }
+    }
+
+    trace.push(v.slice(offset - d, offset + d + 1));
+  }
+
+  return null;
+};
+
+const backtrack = (trace: Int32Array[], a: string[], b: string[]): [DiffOperation, string][] => {
+  const edits: [DiffOperation, string][] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d > 0; d--) {
+    const previous = trace[d - 1]!;
+    const k = x - y;
+    const inserted = k === -d || (k !== d && previous[k - 1 + d - 1]! < previous[k + 1 + d - 1]!);
+    const previousK = inserted ? k + 1 : k - 1;
+    const previousX = previous[previousK + d - 1]!;
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push(['equal', a[--x]!]);
+      y--;
+    }
+
+    if (inserted) {
+      edits.push(['insert', b[--y]!]);
+    } else {
+      edits.push(['delete', a[--x]!]);
+    }
+  }
+
+  while (x > 0 && y > 0) {
+    edits.push(['equal', a[--x]!]);
+    y--;
+  }
+
+  return edits.reverse();
+};
+
+// Edit that turns one text into another, over UTF-16 code units like String#slice
+export type TextDeltaOp = { retain: number } | { delete: number } | { insert: string };
+
+/**
+ * Encode the changes from `from` to `to` as a compact delta; unchanged text is only counted
+ */
+export const createTextDelta = (from: string, to: string): TextDeltaOp[] => {
+  const ops: TextDeltaOp[] = diffWords(from, to).map(({ type, text }) => {
+    if (type === 'equal') return { retain: text.length };
+    if (type === 'delete') return { delete: text.length };
+    return { insert: text };
+  });
+
+  // Whatever follows the last change is retained implicitly
+  const last = ops[ops.length - 1];
+  if (last && 'retain' in last) {
+    ops.pop();
+  }
+
+  return ops;
+};
+
+/**
+ * Apply a delta created by createTextDelta to the text it was created from
+ */
+export const applyTextDelta = (base: string, ops: TextDeltaOp[]): string => {
+  let result = '';
+  let index = 0;
+
+  for (const op of ops) {
+    if ('retain' in op) {
+      result += base.slice(index, index + op.retain);
+      index += op.retain;
+    } else if ('delete' in op) {
+      index += op.delete;
+    } else {
+      result += op.insert;
+    }
+  }
+
+  if (index > base.length) {
+    throw new Error('Text delta does not match its base text');
+  }
+
+  return result + base.slice(index);
+};
@@ -12,7 +12,12 @@ import {
   type GetDocumentsQueryData,
   type AddCollaboratorFormData,
 } from "@/schemas"
-import type { DocumentResult, DocumentListResult } from "@/types"
+import type {
+  DocumentResult,
+  DocumentListResult,
+  DocumentRevisionsResult,
+  DocumentDiffResult,
+} from "@/types"
 
 // Helper function to get authenticated headers
 async function getAuthHeaders(): Promise<HeadersInit> {
@@ -190,7 +195,13 @@ export async function getDocument(id: string): Promise<DocumentResult> {
 }
 
 // Update document
-export async function updateDocument(id: string, data: UpdateDocumentFormData): Promise<DocumentResult> {
+// Update document. Passing the revision it was loaded at makes the save conditional,
+// so it is rejected if someone else saved in the meantime
+export async function updateDocument(
+  id: string,
+  data: UpdateDocumentFormData,
+  revision?: number,
+): Promise<DocumentResult> {
   try {
     const session = await auth()
     if (!session?.user?.accessToken) {
@@ -210,9 +221,14 @@ export async function updateDocument(id: string, data: UpdateDocumentFormData):
     // Validate the data
     const validatedData = updateDocumentSchema.parse(data)
 
+    const headers = new Headers(await getAuthHeaders())
+    if (revision !== undefined) {
+      headers.set("If-Match", `"${revision}"`)
+    }
+
     const response = await fetch(`${Env.BACKEND_URL}/api/documents/${id}`, {
       method: "PUT",
-      headers: await getAuthHeaders(),
+      headers,
       body: JSON.stringify(validatedData),
     })
 
@@ -225,6 +241,13 @@ export async function updateDocument(id: string, data: UpdateDocumentFormData):
           message: "Document not found or insufficient permissions",
         }
       }
+      if (response.status === 412) {
+        return {
+          success: false,
+          message: "The document was changed by someone else. Reload it before saving again.",
+          data: result.error?.details,
+        }
+      }
       return {
         success: false,
         message: result.message || "Failed to update document",
@@ -417,4 +440,113 @@ export async function removeCollaborator(id: string, collaboratorId: string): Pr
       message: "An unexpected error occurred while removing the collaborator",
     }
   }
-} 
\ No newline at end of file
+}
+
+// Get the versions and recent edit history of a document, newest first
+export async function getDocumentRevisions(id: string): Promise<DocumentRevisionsResult> {
+  try {
+    const session = await auth()
+    if (!session?.user?.accessToken) {
+      return {
+        success: false,
+        message: "Authentication required",
+      }
+    }
+
+    if (!id || typeof id !== 'string') {
+      return {
+        success: false,
+        message: "Valid document ID is required",
+      }
+    }
+
+    const headers = await getAuthHeaders()
+    const [versionsResponse, historyResponse] = await Promise.all([
+      fetch(`${Env.BACKEND_URL}/api/documents/${id}/versions?limit=100`, { method: "GET", headers }),
+      fetch(`${Env.BACKEND_URL}/api/edit-history/document/${id}?limit=100`, { method: "GET", headers }),
+    ])
+
+    const [versions, history] = await Promise.all([versionsResponse.json(), historyResponse.json()])
+
+    if (!versionsResponse.ok || !historyResponse.ok) {
+      if (versionsResponse.status === 404) {
+        return {
+          success: false,
+          message: "Document not found or access denied",
+        }
+      }
+      return {
+        success: false,
+        message: versions.message || history.message || "Failed to fetch document revisions",
+      }
+    }
+
+    return {
+      success: true,
+      message: "Document revisions retrieved successfully",
+      data: {
+        versions: versions.data || [],
+        history: history.data || [],
+      },
+    }
+  } catch (error) {
+    console.error("Get document revisions error:", error)
+    return {
+      success: false,
+      message: "An unexpected error occurred while fetching document revisions",
+    }
+  }
+}
+
+// Get a word-level diff between two revisions ("current", a version ID or an edit history ID)
+export async function getDocumentDiff(id: string, from: string, to: string = "current"): Promise<DocumentDiffResult> {
+  try {
+    const session = await auth()
+    if (!session?.user?.accessToken) {
+      return {
+        success: false,
+        message: "Authentication required",
+      }
+    }
+
+    if (!id || typeof id !== 'string') {
+      return {
+        success: false,
+        message: "Valid document ID is required",
+      }
+    }
+
+    const searchParams = new URLSearchParams({ from, to })
+    const response = await fetch(`${Env.BACKEND_URL}/api/documents/${id}/diff?${searchParams.toString()}`, {
+      method: "GET",
+      headers: await getAuthHeaders(),
+    })
+
+    const result = await response.json()
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        return {
+          success: false,
+          message: result.message || "Document or revision not found",
+        }
+      }
+      return {
+        success: false,
+        message: result.message || "Failed to compare revisions",
+      }
+    }
+
+    return {
+      success: true,
+      message: result.message || "Document diff retrieved successfully",
+      data: result.data,
+    }
+  } catch (error) {
+    console.error("Get document diff error:", error)
+    return {
+      success: false,
+      message: "An unexpected error occurred while comparing revisions",
+    }
+  }
+}
@@ -0,0 +1,122 @@
+"use client"
+
+import { useEffect, useState, useCallback } from "react"
+import { useParams, useRouter } from "next/navigation"
+import { getDocument, getDocumentRevisions, getDocumentDiff } from "@/actions"
+import type { Document, DocumentDiff, DocumentVersion, EditHistoryEntry } from "@/types"
+import { DiffPageHeader, DiffRevisionPicker, SideBySideDiff } from "@/components/document-diff"
+
+const DocumentDiffPage = () => {
+  const params = useParams()
+  const router = useRouter()
+  const documentId = params.id as string
+
+  const [document, setDocument] = useState<Document | null>(null)
+  const [versions, setVersions] = useState<DocumentVersion[]>([])
+  const [history, setHistory] = useState<EditHistoryEntry[]>([])
+  const [from, setFrom] = useState<string | null>(null)
+  const [to, setTo] = useState("current")
+  const [diff, setDiff] = useState<DocumentDiff | null>(null)
+  const [isLoading, setIsLoading] = useState(true)
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchRevisions = useCallback(async () => {
+    if (!documentId) return
+
+    setIsLoading(true)
+    setError(null)
+
+    const [documentResult, revisionsResult] = await Promise.all([
+      getDocument(documentId),
+      getDocumentRevisions(documentId)
+    ])
+
+    if (documentResult.success && documentResult.data && revisionsResult.success && revisionsResult.data) {
+      setDocument(documentResult.data as Document)
+      setVersions(revisionsResult.data.versions)
+      setHistory(revisionsResult.data.history)
+      // Start from the most recent saved revision, whichever list it is in, compared with the live document
+      const latestVersion = revisionsResult.data.versions[0]
+      const latestHistory = revisionsResult.data.history[0]
+      const latest =
+        latestVersion && latestHistory
+          ? Date.parse(latestVersion.createdAt) >= Date.parse(latestHistory.timestamp)
+            ? latestVersion
+            : latestHistory
+          : latestVersion ?? latestHistory
+      setFrom(latest?.id ?? "current")
+    } else {
+      setError(documentResult.success ? revisionsResult.message : documentResult.message)
+    }
+
+    setIsLoading(false)
+  }, [documentId])
+
+  useEffect(() => {
+    fetchRevisions()
+  }, [fetchRevisions])
+
+  useEffect(() => {
+    if (!from) return
+
+    let cancelled = false
+    setIsComparing(true)
+
+    getDocumentDiff(documentId, from, to).then((result) => {
+      if (cancelled) return
+      if (result.success && result.data) {
+        setDiff(result.data)
+        setError(null)
+      } else {
+        setError(result.message)
+      }
+      setIsComparing(false)
+    })
+
+    return () => {
+      cancelled = true
+    }
+  }, [documentId, from, to])
+
+  const handleBackToDocument = () => router.push(`/documents/${documentId}`)
+
+  if (isLoading) {
+    return <div className="p-4 text-center">Loading revisions...</div>
+  }
+
+  if (!document || from === null) {
+    return <div className="p-4 text-center text-destructive">{error || "Document not found"}</div>
+  }
+
+  return (
+    <div className="space-y-6">
+      <DiffPageHeader documentTitle={document.title} onBackToDocument={handleBackToDocument} />
+
+      <DiffRevisionPicker
+        versions={versions}
+        history={history}
+        from={from}
+        to={to}
+        onFromChange={setFrom}
+        onToChange={setTo}
+      />
+
+      {error && <div className="text-destructive text-sm">{error}</div>}
+
+      {versions.length === 0 && history.length === 0 && (
+        <p className="text-sm text-muted-foreground text-center">
+          No versions or saved edits yet. Save a version or keep editing to compare revisions.
+        </p>
+      )}
+
+      {diff && (
+        <div className={isComparing ? "opacity-60 transition-opacity" : "transition-opacity"}>
+          <SideBySideDiff diff={diff} />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default DocumentDiffPage
@@ -12,9 +12,16 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
-import { ArrowLeft, Share, Save } from "lucide-react";
+import { ArrowLeft, Share, Save, GitCompare } from "lucide-react";
 import Quill from "quill";
 
+// Fields of a save response: queued saves report their base revision, rejected ones the current revision
+interface SaveResultData {
+  status?: string;
+  baseRevision?: number;
+  revision?: number;
+}
+
 interface DocumentUser {
   userId: string;
   username: string;
@@ -31,6 +38,8 @@ export default function DocumentEditorPage() {
   const quillRef = useRef<Quill | null>(null);
   const flushUpdatesRef = useRef<(() => void) | null>(null);
   const manualSaveRef = useRef<(() => Promise<void>) | null>(null);
+  // Revision our next save is based on, sent as If-Match
+  const revisionRef = useRef<number | undefined>(undefined);
 
   const fetchDocument = useCallback(async () => {
     setIsLoading(true);
@@ -40,6 +49,7 @@ export default function DocumentEditorPage() {
       const result = await getDocument(documentId as string);
       if (result.success && result.data) {
         setDocument(result.data as Document);
+        revisionRef.current = (result.data as Document).revision;
       } else {
         setError(result.message || "Failed to load document");
       }
@@ -57,7 +67,22 @@ export default function DocumentEditorPage() {
   const handleSaveContent = useCallback(
     async (content: string) => {
       try {
-        await updateDocument(documentId as string, { content });
+        const save = () => updateDocument(documentId as string, { content }, revisionRef.current);
+        let result = await save();
+        let data = result.data as SaveResultData | undefined;
+
+        if (!result.success && typeof data?.revision === "number") {
+          // Another save landed first. The editor holds the merged collaborative content,
+          // so it is saved again on top of that revision
+          revisionRef.current = data.revision;
+          result = await save();
+          data = result.data as SaveResultData | undefined;
+        }
+
+        if (result.success && data?.status === "queued" && typeof data.baseRevision === "number") {
+          // The queued save produces the next revision once it lands
+          revisionRef.current = data.baseRevision + 1;
+        }
       } catch {
         setError("Failed to save changes. Please check your connection.");
       }
@@ -90,6 +115,10 @@ export default function DocumentEditorPage() {
     router.push(`/documents/${documentId}/share`);
   }, [router, documentId]);
 
+  const handleCompare = useCallback(() => {
+    router.push(`/documents/${documentId}/diff`);
+  }, [router, documentId]);
+
   const handleEditorLoad = useCallback(() => {
     // Editor loaded successfully
   }, []);
@@ -185,6 +214,11 @@ export default function DocumentEditorPage() {
               </div>
             )}
 
+            <Button variant="outline" size="sm" onClick={handleCompare}>
+              <GitCompare className="w-4 h-4 mr-2" />
+              Compare
+            </Button>
+
             <Button variant="outline" size="sm" onClick={handleShare}>
               <Share className="w-4 h-4 mr-2" />
               Share
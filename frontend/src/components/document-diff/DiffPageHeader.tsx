@@ -0,0 +1,26 @@
+import { Button } from "@/components/ui"
+import { ArrowLeft, GitCompare } from "lucide-react"
+
+interface DiffPageHeaderProps {
+  documentTitle: string
+  onBackToDocument: () => void
+}
+
+export function DiffPageHeader({ documentTitle, onBackToDocument }: DiffPageHeaderProps) {
+  return (
+    <div className="flex items-center justify-between">
+      <Button variant="ghost" size="sm" onClick={onBackToDocument}>
+        <ArrowLeft className="w-4 h-4 mr-2" />
+        Back to Document
+      </Button>
+
+      <div className="text-right">
+        <p className="text-sm font-medium">{documentTitle}</p>
+        <p className="text-xs text-muted-foreground flex items-center justify-end gap-1">
+          <GitCompare className="w-3 h-3" />
+          Comparing revisions
+        </p>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,75 @@
+import { Card, CardContent } from "@/components/ui"
+import { ArrowRight } from "lucide-react"
+import type { DocumentVersion, EditHistoryEntry } from "@/types"
+
+interface DiffRevisionPickerProps {
+  versions: DocumentVersion[]
+  history: EditHistoryEntry[]
+  from: string
+  to: string
+  onFromChange: (revision: string) => void
+  onToChange: (revision: string) => void
+}
+
+const formatTimestamp = (timestamp: string) => new Date(timestamp).toLocaleString()
+
+function RevisionOptions({ versions, history }: Pick<DiffRevisionPickerProps, "versions" | "history">) {
+  return (
+    <>
+      <option value="current">Current document</option>
+      {versions.length > 0 && (
+        <optgroup label="Versions">
+          {versions.map((version) => (
+            <option key={version.id} value={version.id}>
+              {version.name} · {formatTimestamp(version.createdAt)}
+            </option>
+          ))}
+        </optgroup>
+      )}
+      {history.length > 0 && (
+        <optgroup label="Edit history">
+          {history.map((entry) => (
+            <option key={entry.id} value={entry.id}>
+              Saved by {entry.user.username} · {formatTimestamp(entry.timestamp)}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </>
+  )
+}
+
+export function DiffRevisionPicker({
+  versions,
+  history,
+  from,
+  to,
+  onFromChange,
+  onToChange
+}: DiffRevisionPickerProps) {
+  return (
+    <Card>
+      <CardContent className="pt-6">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <select
+            aria-label="Compare from"
+            value={from}
+            onChange={(e) => onFromChange(e.target.value)}
+            className="flex-1 px-3 py-2 border border-input bg-background rounded-md text-sm"
+          >
+            <RevisionOptions versions={versions} history={history} />
+          </select>
+          <ArrowRight className="w-4 h-4 text-muted-foreground shrink-0 self-center" />
+          <select
+            aria-label="Compare to"
+            value={to}
+            onChange={(e) => onToChange(e.target.value)}
+            className="flex-1 px-3 py-2 border border-input bg-background rounded-md text-sm"
+          >
+            <RevisionOptions versions={versions} history={history} />
+          </select>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
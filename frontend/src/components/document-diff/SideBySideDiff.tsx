@@ -0,0 +1,80 @@
+import { Badge, Card, CardContent, CardHeader, CardTitle } from "@/components/ui"
+import type { DiffRevision, DiffSegment, DocumentDiff } from "@/types"
+
+interface SideBySideDiffProps {
+  diff: DocumentDiff
+}
+
+// The left side shows what was removed, the right side what was added
+function DiffSide({ segments, side }: { segments: DiffSegment[]; side: "from" | "to" }) {
+  const hidden = side === "from" ? "insert" : "delete"
+
+  return (
+    <>
+      {segments.map((segment, index) => {
+        if (segment.type === hidden) {
+          return null
+        }
+        if (segment.type === "delete") {
+          return (
+            <del key={index} className="bg-red-100 text-red-800 dark:bg-red-950 dark:text-red-200">
+              {segment.text}
+            </del>
+          )
+        }
+        if (segment.type === "insert") {
+          return (
+            <ins key={index} className="bg-green-100 text-green-800 no-underline dark:bg-green-950 dark:text-green-200">
+              {segment.text}
+            </ins>
+          )
+        }
+        return <span key={index}>{segment.text}</span>
+      })}
+    </>
+  )
+}
+
+function RevisionHeading({ revision }: { revision: DiffRevision }) {
+  return (
+    <CardHeader className="pb-3">
+      <CardTitle className="text-sm">{revision.label}</CardTitle>
+      <p className="text-xs text-muted-foreground">{new Date(revision.timestamp).toLocaleString()}</p>
+    </CardHeader>
+  )
+}
+
+export function SideBySideDiff({ diff }: SideBySideDiffProps) {
+  const { insertedWords, deletedWords } = diff.stats
+  const unchanged = insertedWords === 0 && deletedWords === 0 && diff.title.every((segment) => segment.type === "equal")
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline" className="text-xs text-green-700">
+          +{insertedWords} word{insertedWords !== 1 ? "s" : ""}
+        </Badge>
+        <Badge variant="outline" className="text-xs text-red-700">
+          −{deletedWords} word{deletedWords !== 1 ? "s" : ""}
+        </Badge>
+        {unchanged && <span className="text-xs text-muted-foreground">No differences</span>}
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        {(["from", "to"] as const).map((side) => (
+          <Card key={side}>
+            <RevisionHeading revision={diff[side]} />
+            <CardContent className="space-y-3">
+              <h2 className="text-lg font-semibold">
+                <DiffSide segments={diff.title} side={side} />
+              </h2>
+              <div className="text-sm leading-relaxed whitespace-pre-wrap break-words">
+                <DiffSide segments={diff.content} side={side} />
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,3 @@
+export { DiffPageHeader } from './DiffPageHeader'
+export { DiffRevisionPicker } from './DiffRevisionPicker'
+export { SideBySideDiff } from './SideBySideDiff'
@@ -6,7 +6,9 @@ import 'quill/dist/quill.snow.css'
 import * as Y from 'yjs'
 import { QuillBinding } from 'y-quill'
 import { Env } from '@/lib/env'
-import { CustomWebsocketProvider } from '@/lib/custom-websocket-provider'
+import { getSession } from 'next-auth/react'
+import { AccessRevokedReason, ConnectionState, CustomWebsocketProvider, WebSocketErrorEvent } from '@/lib/custom-websocket-provider'
+import { ErrorCode } from '@sync-text/protocol'
 import { useAppSelector } from '@/store/hooks'
 import QuillCursors from 'quill-cursors'
 
@@ -30,6 +32,25 @@ interface DocumentUser {
   username: string
 }
 
+const ACCESS_REVOKED_MESSAGES: Record<AccessRevokedReason, string> = {
+  'token-revoked': 'Your session has ended. Please sign in again to keep editing.',
+  'collaborator-removed': 'Your access to this document has been removed.',
+  'document-deleted': 'This document has been deleted by its owner.',
+}
+
+const CONNECTION_STATE_MESSAGES: Partial<Record<ConnectionState, string>> = {
+  'offline': 'You are offline. Changes are saved on this device and will sync when you reconnect.',
+  'reconnecting': 'Connection lost. Reconnecting...',
+  'auth-failed': 'Your session has expired. Please sign in again to keep editing.',
+}
+
+// Server errors about our own edits that the user should know about
+const SYNC_ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  'RATE_LIMITED': 'You are editing faster than the server accepts. Your changes will be sent again shortly.',
+  'FORBIDDEN': 'You can view this document but not edit it.',
+  'PAYLOAD_TOO_LARGE': 'This change is too large to sync.',
+}
+
 function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadAction, onUsersChange, quillRef, flushUpdatesRef, manualSaveRef }: TextEditorProps) {
   const onSaveActionRef = useRef(onSaveAction);
   const onLoadActionRef = useRef(onLoadAction);
@@ -58,6 +79,9 @@ function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadA
   
   const [isConnecting, setIsConnecting] = useState(true)
   const [usersInDocument, setUsersInDocument] = useState<DocumentUser[]>([])
+  const [accessRevokedReason, setAccessRevokedReason] = useState<AccessRevokedReason | null>(null)
+  const [connectionState, setConnectionState] = useState<ConnectionState>('connecting')
+  const [syncError, setSyncError] = useState<WebSocketErrorEvent | null>(null)
 
   const memoizedOnUsersChange = useCallback(() => {
     onUsersChange?.(usersInDocument)
@@ -70,8 +94,20 @@ function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadA
   useEffect(() => {
     contentInitializedRef.current = false
     connectionInitializedRef.current = false
+    setAccessRevokedReason(null)
+    setSyncError(null)
   }, [documentId])
 
+  // Rate limiting is temporary; hide the notice once the block has lifted
+  useEffect(() => {
+    if (syncError?.code !== 'RATE_LIMITED') {
+      return;
+    }
+
+    const timeout = setTimeout(() => setSyncError(null), syncError.retryAfterMs ?? 0);
+    return () => clearTimeout(timeout);
+  }, [syncError])
+
   useEffect(() => {
     if (!editorRef.current || !user) {
       return;
@@ -127,8 +163,17 @@ function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadA
       documentId,
       ydocRef.current,
       user.accessToken!,
-      CustomWebsocketProvider.createOptimizedConfig('balanced')
+      {
+        // The provider stretches these with measured latency and the number of participants
+        ...CustomWebsocketProvider.createOptimizedConfig('balanced'),
+        // The session may hold a newer token, e.g. after signing in again in another tab
+        getToken: async () => (await getSession())?.user?.accessToken,
+      }
     )
+
+    providerRef.current.on('status', (data) => {
+      setConnectionState(data.state);
+    });
     
     providerRef.current.on('users-in-document', (data) => {
       setUsersInDocument(data.users);
@@ -146,6 +191,38 @@ function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadA
       }
     });
 
+    providerRef.current.on('synced', (data) => {
+      // The server's Y.Doc is authoritative; only the joiner granted the seed
+      // may import the legacy HTML content into a document that was never edited
+      if (!data.shouldSeed || !quillRefInternal.current || !ydocRef.current) {
+        return;
+      }
+
+      const ytext = ydocRef.current.getText('quill');
+      if (ytext.length === 0 && initialContent && initialContent.trim() !== '' && initialContent.trim() !== '<p><br></p>') {
+        const delta = quillRefInternal.current.clipboard.convert({ html: initialContent });
+        quillRefInternal.current.setContents(delta);
+      }
+    });
+
+    providerRef.current.on('access-revoked', (data) => {
+      setAccessRevokedReason(data.reason);
+      setIsConnecting(false);
+      quillRefInternal.current?.disable();
+    });
+
+    providerRef.current.on('error', (error) => {
+      const concernsEdits = error.messageType === 'yjs-update' || error.messageType === 'sync-step-2';
+      if (!SYNC_ERROR_MESSAGES[error.code] || (!concernsEdits && error.code !== 'PAYLOAD_TOO_LARGE')) {
+        return;
+      }
+
+      setSyncError(error);
+      if (error.code === 'FORBIDDEN') {
+        quillRefInternal.current?.disable();
+      }
+    });
+
     providerRef.current.on('user-joined', (data) => {
       setUsersInDocument(prev => {
         const userExists = prev.find(u => u.userId === data.user.userId);
@@ -209,11 +286,6 @@ function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadA
 
     bindingRef.current = new QuillBinding(ytext, quillRefInternal.current, providerRef.current.awareness)
 
-    if (initialContent && initialContent.trim() !== '' && initialContent.trim() !== '<p><br></p>') {
-      const delta = quillRefInternal.current.clipboard.convert({ html: initialContent });
-      quillRefInternal.current.setContents(delta);
-    }
-
     contentInitializedRef.current = true;
     connectionInitializedRef.current = true;
 
@@ -278,6 +350,24 @@ function TextEditorComponent({ documentId, initialContent, onSaveAction, onLoadA
 
   return (
     <div className='space-y-0'>
+      {accessRevokedReason && (
+        <div className="p-4 text-center text-destructive">
+          {ACCESS_REVOKED_MESSAGES[accessRevokedReason]}
+        </div>
+      )}
+
+      {!accessRevokedReason && CONNECTION_STATE_MESSAGES[connectionState] && (
+        <div className="p-4 text-center text-muted-foreground">
+          {CONNECTION_STATE_MESSAGES[connectionState]}
+        </div>
+      )}
+
+      {!accessRevokedReason && syncError && (
+        <div className="p-4 text-center text-muted-foreground">
+          {SYNC_ERROR_MESSAGES[syncError.code]}
+        </div>
+      )}
+
       {isConnecting && (
         <div className="p-4 text-center text-muted-foreground">
           Connecting to real-time editor...
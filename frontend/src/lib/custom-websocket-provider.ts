@@ -1,10 +1,135 @@
 import * as Y from 'yjs';
 import { Awareness } from 'y-protocols/awareness';
 import * as awarenessProtocol from 'y-protocols/awareness';
+import { IndexeddbPersistence } from 'y-indexeddb';
 import {
   toBase64,
   fromBase64
 } from 'lib0/buffer';
+import {
+  MESSAGE_AWARENESS,
+  MESSAGE_CHUNK,
+  MESSAGE_SYNC,
+  SYNC_STEP_1,
+  SYNC_STEP_2,
+  SYNC_UPDATE,
+  decodeAwarenessPayload,
+  decodeChunkPayload,
+  decodeEnvelope,
+  decodeSyncPayload,
+  encodeAwarenessMessage,
+  encodeChunkMessage,
+  encodeSyncMessage,
+  ChunkData,
+  ChunkTransfer,
+  ChunkTransferError,
+  MessageChunk,
+  addChunk,
+  createTransferId,
+  pruneTransfers,
+  splitMessage,
+  ClientMessage,
+  LEGACY_PROTOCOL_VERSION,
+  PROTOCOL_VERSION,
+  ServerMessage,
+  ServerMessageData,
+  serverMessageSchema,
+  computeDocumentChecksum,
+} from '@sync-text/protocol';
+
+export type AccessRevokedReason = 'token-revoked' | 'collaborator-removed' | 'document-deleted';
+
+export interface AccessRevokedEvent {
+  code: number;
+  reason: AccessRevokedReason;
+}
+
+// Close codes the server uses when it kicks a socket whose access was revoked
+const ACCESS_REVOKED_CLOSE_CODES: Record<number, AccessRevokedReason> = {
+  4401: 'token-revoked',
+  4403: 'collaborator-removed',
+  4404: 'document-deleted',
+};
+
+export type ConnectionState = 'connecting' | 'synced' | 'offline' | 'reconnecting' | 'auth-failed';
+
+export interface ConnectionStatusEvent {
+  state: ConnectionState;
+  previousState: ConnectionState;
+  attempt: number;
+  // Only set while a reconnect is scheduled
+  retryInMs?: number;
+}
+
+// Give up waiting for the local copy after this long so a broken IndexedDB never blocks connecting
+const LOCAL_LOAD_TIMEOUT_MS = 1000;
+
+// First protocol version whose server acks sequenced updates and answers state checks
+const SEQUENCED_PROTOCOL_VERSION = 2;
+
+// First protocol version whose server reassembles chunked messages and may send them
+const CHUNKED_PROTOCOL_VERSION = 4;
+
+// Limits for chunked messages from the server
+const MAX_CHUNKED_MESSAGE_BYTES = 64 * 1024 * 1024;
+const CHUNK_TRANSFER_TIMEOUT_MS = 30000;
+
+// First protocol version whose server answers latency pings
+const PING_PROTOCOL_VERSION = 5;
+
+// Upper bounds for the batching settings adapted to latency and participant count
+const MAX_ADAPTIVE_YJS_DEBOUNCE_MS = 1000;
+const MAX_ADAPTIVE_AWARENESS_DEBOUNCE_MS = 500;
+const MAX_ADAPTIVE_YJS_BATCH_SIZE = 500;
+
+// Above this round-trip time, or with this many other participants, sends are throttled
+const THROTTLE_RTT_MS = 300;
+const THROTTLE_PARTICIPANTS = 10;
+
+// State vector of an empty doc; syncing against it exchanges the full state
+const EMPTY_STATE_VECTOR = new Uint8Array([0]);
+
+export type DivergenceReason = NonNullable<ServerMessageData<'state-check-result'>['divergence']>;
+
+export interface ResyncEvent {
+  documentId: string;
+  // Unset when this client was only behind the server, e.g. after it fell too far behind to be sent updates
+  divergence?: DivergenceReason;
+}
+
+export type WebSocketErrorEvent = ServerMessageData<'error'>;
+
+// Message types whose rejection concerns the retained, unacknowledged updates
+const UPDATE_MESSAGE_TYPES = new Set(['yjs-update', 'sync-step-2']);
+
+// Payload passed to `on()` listeners for each provider event
+export interface ProviderEventMap {
+  'users-in-document': ServerMessageData<'users-in-document'>;
+  'user-joined': ServerMessageData<'user-joined'>;
+  'user-left': ServerMessageData<'user-left'>;
+  'synced': ServerMessageData<'synced'>;
+  'connected': ServerMessageData<'connected'>;
+  'access-revoked': AccessRevokedEvent;
+  'status': ConnectionStatusEvent;
+  'local-synced': { documentId: string };
+  'resync': ResyncEvent;
+  'error': WebSocketErrorEvent;
+}
+
+export type ProviderEvent = keyof ProviderEventMap;
+
+// Batching settings; the configured ones are the floor the adaptive values start from
+type BatchingConfig = Required<
+  Pick<
+    WebSocketProviderConfig,
+    | 'yjsDebounceMs'
+    | 'awarenessDebounceMs'
+    | 'maxYjsBatchSize'
+    | 'maxAwarenessBatchSize'
+    | 'enableThrottling'
+    | 'throttleIntervalMs'
+  >
+>;
 
 interface WebSocketProviderConfig {
   yjsDebounceMs?: number;
@@ -13,11 +138,30 @@ interface WebSocketProviderConfig {
   maxAwarenessBatchSize?: number;
   enableThrottling?: boolean;
   throttleIntervalMs?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  // Resend unacknowledged updates after this long (doubling per retry)
+  ackTimeoutMs?: number;
+  // How often to compare our document state with the server's
+  stateCheckIntervalMs?: number;
+  // Messages larger than this are sent in chunks (capped by the server's frame limit)
+  chunkSizeBytes?: number;
+  // Stretch the batching settings above with latency and participant count
+  adaptive?: boolean;
+  // How often to measure the round-trip time to the server
+  pingIntervalMs?: number;
+  // Called for a fresh token when the server rejects the handshake
+  getToken?: () => Promise<string | null | undefined>;
 }
 
+/**
+ * Syncs one document over its own WebSocket connection. The server accepts several documents
+ * per connection, but the editor only ever shows one, so providers don't share a socket yet
+ */
 export class CustomWebsocketProvider {
   public ydoc: Y.Doc;
   public awareness: Awareness;
+  public persistence: IndexeddbPersistence;
   private ws: WebSocket | null = null;
   private url: string;
   private roomName: string;
@@ -26,21 +170,65 @@ export class CustomWebsocketProvider {
   private callbacks: Map<string, (data: any) => void>; 
   private isIntentionallyDisconnected: boolean = false;
   private isTabHidden: boolean = false;
+  private state: ConnectionState = 'connecting';
+  private reconnectAttempt: number = 0;
+  private reconnectTimeout: NodeJS.Timeout | null = null;
+  private hasSyncedOnce: boolean = false;
+  private tokenRefreshAttempted: boolean = false;
+  private getToken?: () => Promise<string | null | undefined>;
+  private synced: boolean = false;
+  private localSynced: boolean = false;
+  // Set once the server confirms binary framing in its `connected` message
+  private useBinary: boolean = false;
+  private protocolVersion: number = LEGACY_PROTOCOL_VERSION;
+  // Largest frame the server accepts, from its `connected` message
+  private maxFrameBytes: number | null = null;
+
+  // Chunked messages being received, and chunks waiting to be sent one per task
+  private incomingTransfers: Map<string, ChunkTransfer> = new Map();
+  private outgoingChunks: ChunkData[] = [];
+  private chunkSendTimeout: NodeJS.Timeout | null = null;
   
   private yjsUpdateTimeout: NodeJS.Timeout | null = null;
   private awarenessUpdateTimeout: NodeJS.Timeout | null = null;
   private pendingYjsUpdates: Uint8Array[] = [];
   private pendingAwarenessUpdates: Uint8Array[] = [];
+
+  // Sent updates kept by sequence number until the server acks them
+  private nextSeq: number = 1;
+  private unackedUpdates: Map<number, Uint8Array> = new Map();
+  private ackTimeout: NodeJS.Timeout | null = null;
+  private resendAttempt: number = 0;
+
+  private stateCheckInterval: NodeJS.Timeout | null = null;
+  private resyncCount: number = 0;
   
   private lastYjsSendTime: number = 0;
   private lastAwarenessSendTime: number = 0;
   
-  private readonly YJS_DEBOUNCE_MS: number;
-  private readonly AWARENESS_DEBOUNCE_MS: number;
-  private readonly MAX_YJS_BATCH_SIZE: number;
-  private readonly MAX_AWARENESS_BATCH_SIZE: number;
-  private readonly ENABLE_THROTTLING: boolean;
-  private readonly THROTTLE_INTERVAL_MS: number;
+  // Round-trip time to the server, smoothed like TCP's SRTT, and the pings awaiting a pong
+  private rttMs: number | null = null;
+  private lastRttMs: number | null = null;
+  private nextPingId: number = 1;
+  private pendingPings: Map<number, number> = new Map();
+  private pingInterval: NodeJS.Timeout | null = null;
+  // Users present in the document, ourselves included
+  private participants: Set<string> = new Set();
+
+  private baseBatching: BatchingConfig;
+  private YJS_DEBOUNCE_MS: number;
+  private AWARENESS_DEBOUNCE_MS: number;
+  private MAX_YJS_BATCH_SIZE: number;
+  private MAX_AWARENESS_BATCH_SIZE: number;
+  private ENABLE_THROTTLING: boolean;
+  private THROTTLE_INTERVAL_MS: number;
+  private ADAPTIVE: boolean;
+  private readonly PING_INTERVAL_MS: number;
+  private readonly RECONNECT_BASE_DELAY_MS: number;
+  private readonly RECONNECT_MAX_DELAY_MS: number;
+  private readonly ACK_TIMEOUT_MS: number;
+  private readonly STATE_CHECK_INTERVAL_MS: number;
+  private readonly CHUNK_SIZE_BYTES: number;
 
   constructor(url: string, roomName: string, ydoc: Y.Doc, token: string, config?: WebSocketProviderConfig) {
     this.url = url;
@@ -51,21 +239,76 @@ export class CustomWebsocketProvider {
     this.callbacks = new Map();
     this.isIntentionallyDisconnected = false;
     
-    this.YJS_DEBOUNCE_MS = config?.yjsDebounceMs ?? 100;
-    this.AWARENESS_DEBOUNCE_MS = config?.awarenessDebounceMs ?? 50;
-    this.MAX_YJS_BATCH_SIZE = config?.maxYjsBatchSize ?? 100;
-    this.MAX_AWARENESS_BATCH_SIZE = config?.maxAwarenessBatchSize ?? 100;
-    this.ENABLE_THROTTLING = config?.enableThrottling ?? false;
-    this.THROTTLE_INTERVAL_MS = config?.throttleIntervalMs ?? 1000;
+    this.baseBatching = {
+      yjsDebounceMs: config?.yjsDebounceMs ?? 100,
+      awarenessDebounceMs: config?.awarenessDebounceMs ?? 50,
+      maxYjsBatchSize: config?.maxYjsBatchSize ?? 100,
+      maxAwarenessBatchSize: config?.maxAwarenessBatchSize ?? 100,
+      enableThrottling: config?.enableThrottling ?? false,
+      throttleIntervalMs: config?.throttleIntervalMs ?? 1000,
+    };
+    this.YJS_DEBOUNCE_MS = this.baseBatching.yjsDebounceMs;
+    this.AWARENESS_DEBOUNCE_MS = this.baseBatching.awarenessDebounceMs;
+    this.MAX_YJS_BATCH_SIZE = this.baseBatching.maxYjsBatchSize;
+    this.MAX_AWARENESS_BATCH_SIZE = this.baseBatching.maxAwarenessBatchSize;
+    this.ENABLE_THROTTLING = this.baseBatching.enableThrottling;
+    this.THROTTLE_INTERVAL_MS = this.baseBatching.throttleIntervalMs;
+    this.ADAPTIVE = config?.adaptive ?? true;
+    this.PING_INTERVAL_MS = config?.pingIntervalMs ?? 10000;
+    this.RECONNECT_BASE_DELAY_MS = config?.reconnectBaseDelayMs ?? 500;
+    this.RECONNECT_MAX_DELAY_MS = config?.reconnectMaxDelayMs ?? 30000;
+    this.ACK_TIMEOUT_MS = config?.ackTimeoutMs ?? 3000;
+    this.STATE_CHECK_INTERVAL_MS = config?.stateCheckIntervalMs ?? 30000;
+    this.CHUNK_SIZE_BYTES = config?.chunkSizeBytes ?? 256 * 1024;
+    this.getToken = config?.getToken;
+
+    this.handleOnline = this.handleOnline.bind(this);
+    this.handleOffline = this.handleOffline.bind(this);
+    if (typeof window !== 'undefined') {
+      window.addEventListener('online', this.handleOnline);
+      window.addEventListener('offline', this.handleOffline);
+    }
 
-    this.connect();
+    // Keep a local copy so edits survive reloads while offline; the server sync
+    // on (re)connect exchanges state vectors, so whatever was typed offline is sent then
+    this.persistence = new IndexeddbPersistence(`sync-text:${roomName}`, this.ydoc);
+    this.persistence.whenSynced.then(() => {
+      this.localSynced = true;
+      this.handleCustomMessage({ type: 'local-synced', data: { documentId: this.roomName } });
+    });
+
+    // Connect once the local copy is loaded so the join's state vector already covers it
+    Promise.race([
+      this.persistence.whenSynced,
+      new Promise(resolve => setTimeout(resolve, LOCAL_LOAD_TIMEOUT_MS)),
+    ]).then(() => {
+      if (!this.isIntentionallyDisconnected) {
+        this.connect();
+      }
+    });
 
     this.ydoc.on('update', this.onUpdate.bind(this));
     this.awareness.on('update', this.onAwarenessUpdate.bind(this));
   }
 
-  private onUpdate(update: Uint8Array) {
+  private onUpdate(update: Uint8Array, origin: unknown) {
+    // Loaded from IndexedDB: the server gets it through the state-vector sync on join
+    if (origin === this.persistence) {
+      return;
+    }
+
+    // Applied from the server, which already stores it
+    if (origin === this) {
+      return;
+    }
+
     this.pendingYjsUpdates.push(update);
+
+    // Offline: keep a single merged update instead of an ever-growing queue
+    if (!this.isConnected() && this.pendingYjsUpdates.length > 1) {
+      this.pendingYjsUpdates = [Y.mergeUpdates(this.pendingYjsUpdates)];
+      return;
+    }
     
     if (this.pendingYjsUpdates.length >= this.MAX_YJS_BATCH_SIZE) {
       this.sendPendingYjsUpdates();
@@ -103,22 +346,102 @@ export class CustomWebsocketProvider {
       this.lastYjsSendTime = now;
     }
 
+    this.sendSequencedUpdate('yjs-update', Y.mergeUpdates(this.pendingYjsUpdates));
+
+    this.pendingYjsUpdates = [];
+    this.yjsUpdateTimeout = null;
+  }
+
+  /**
+   * Send an update under the next sequence number and keep it until the server acks it
+   */
+  private sendSequencedUpdate(type: 'yjs-update' | 'sync-step-2', update: Uint8Array) {
+    // Servers predating update acks would leave everything unacknowledged forever
+    const seq = this.protocolVersion >= SEQUENCED_PROTOCOL_VERSION ? this.nextSeq++ : undefined;
+    if (seq !== undefined) {
+      this.unackedUpdates.set(seq, update);
+      this.scheduleAckCheck();
+    }
+
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
     try {
-      const mergedUpdate = Y.mergeUpdates(this.pendingYjsUpdates);
-      
-      this.ws.send(JSON.stringify({
-        type: 'yjs-update',
-        data: {
-          documentId: this.roomName,
-          update: toBase64(mergedUpdate),
-        },
-      }));
+      if (this.useBinary) {
+        const syncType = type === 'sync-step-2' ? SYNC_STEP_2 : SYNC_UPDATE;
+        this.sendFrame(encodeSyncMessage(this.roomName, syncType, update, seq));
+      } else {
+        this.send({
+          type,
+          data: {
+            documentId: this.roomName,
+            update: toBase64(update),
+            ...(seq !== undefined && { seq }),
+          },
+        });
+      }
     } catch (error) {
-      console.error('Failed to send yjs-update:', error);
+      // Still retained, so the ack check resends it
+      console.error(`Failed to send ${type}:`, error);
     }
-    
-    this.pendingYjsUpdates = [];
-    this.yjsUpdateTimeout = null;
+  }
+
+  /**
+   * Check for unacknowledged updates after the ack timeout, or after `delayMs` when given
+   * (which replaces a check already scheduled)
+   */
+  private scheduleAckCheck(delayMs?: number) {
+    if (this.ackTimeout) {
+      if (delayMs === undefined) {
+        return;
+      }
+      clearTimeout(this.ackTimeout);
+    }
+
+    const delay = delayMs ?? Math.min(this.ACK_TIMEOUT_MS * 2 ** this.resendAttempt, this.RECONNECT_MAX_DELAY_MS);
+    this.ackTimeout = setTimeout(() => {
+      this.ackTimeout = null;
+      this.resendUnackedUpdates();
+    }, delay);
+  }
+
+  /**
+   * Merge everything still unacknowledged (rate limited, lost) into one update and send it again
+   */
+  private resendUnackedUpdates() {
+    // A dropped connection resyncs by state vector on reconnect, which covers these too
+    if (this.unackedUpdates.size === 0 || !this.isConnected()) {
+      return;
+    }
+
+    const merged = Y.mergeUpdates(Array.from(this.unackedUpdates.values()));
+    this.unackedUpdates.clear();
+    this.resendAttempt++;
+    this.sendSequencedUpdate('yjs-update', merged);
+  }
+
+  private handleAck(seq: number) {
+    if (this.unackedUpdates.delete(seq) && this.unackedUpdates.size === 0) {
+      this.dropUnackedUpdates();
+    }
+  }
+
+  private dropUnackedUpdates() {
+    this.unackedUpdates.clear();
+    this.resendAttempt = 0;
+    if (this.ackTimeout) {
+      clearTimeout(this.ackTimeout);
+      this.ackTimeout = null;
+    }
+  }
+
+  /**
+   * Forget retained updates; a new connection starts its own sequence and resyncs by state vector
+   */
+  private resetAcks() {
+    this.nextSeq = 1;
+    this.dropUnackedUpdates();
   }
 
   private onAwarenessUpdate({
@@ -129,7 +452,12 @@ export class CustomWebsocketProvider {
     added: number[];
     updated: number[];
     removed: number[];
-  }) {
+  }, origin: unknown) {
+    // The server already holds every state it sent us (join snapshots included)
+    if (origin === this) {
+      return;
+    }
+
     const changedClients = added.concat(updated).concat(removed);
     const awarenessUpdate = awarenessProtocol.encodeAwarenessUpdate(this.awareness, changedClients);
     this.pendingAwarenessUpdates.push(awarenessUpdate);
@@ -172,16 +500,18 @@ export class CustomWebsocketProvider {
 
     try {
       const latestUpdate = this.pendingAwarenessUpdates[this.pendingAwarenessUpdates.length - 1];
-      
-      const message = {
-        type: 'awareness-update',
-        data: {
-          documentId: this.roomName,
-          update: toBase64(latestUpdate),
-        },
-      };
-      
-      this.ws.send(JSON.stringify(message));
+
+      if (this.useBinary) {
+        this.sendFrame(encodeAwarenessMessage(this.roomName, latestUpdate));
+      } else {
+        this.send({
+          type: 'awareness-update',
+          data: {
+            documentId: this.roomName,
+            update: toBase64(latestUpdate),
+          },
+        });
+      }
     } catch (error) {
       console.error('Failed to send awareness-update:', error);
     }
@@ -191,18 +521,41 @@ export class CustomWebsocketProvider {
   }
 
   connect() {
-    const wsUrl = `${this.url}/ws?token=${encodeURIComponent(this.token)}`;
+    if (this.ws && (this.ws.readyState === WebSocket.CONNECTING || this.ws.readyState === WebSocket.OPEN)) {
+      return;
+    }
+
+    // Ask for binary framing; servers that don't support it keep answering in JSON
+    const wsUrl = `${this.url}/ws?token=${encodeURIComponent(this.token)}&encoding=binary&protocol=${PROTOCOL_VERSION}`;
     
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+
+    this.setState(this.hasSyncedOnce ? 'reconnecting' : 'connecting');
+
+    let opened = false;
+    this.useBinary = false;
+    this.protocolVersion = LEGACY_PROTOCOL_VERSION;
+    this.maxFrameBytes = null;
     this.ws = new WebSocket(wsUrl);
+    this.ws.binaryType = 'arraybuffer';
 
     this.ws.onopen = () => {
+      opened = true;
+      this.tokenRefreshAttempted = false;
+      this.resetAcks();
+      this.resetChunks();
       if (this.ws) {
-        this.ws.send(JSON.stringify({
+        // Sync step 1 rides along with the join so the server can answer with only what we lack
+        this.send({
           type: 'join-document',
           data: {
-            documentId: this.roomName
+            documentId: this.roomName,
+            stateVector: toBase64(Y.encodeStateVector(this.ydoc)),
           },
-        }));
+        });
       }
     };
 
@@ -211,73 +564,669 @@ export class CustomWebsocketProvider {
     };
 
     this.ws.onclose = (event) => {
-      if (!this.isIntentionallyDisconnected && !this.isTabHidden) {
-        setTimeout(() => this.connect(), 1000);
+      this.synced = false;
+      this.stopStateChecks();
+      this.stopPings();
+
+      const revokedReason = ACCESS_REVOKED_CLOSE_CODES[event.code];
+      if (revokedReason) {
+        this.handleAccessRevoked({ code: event.code, reason: revokedReason });
+        return;
       }
+
+      if (this.isIntentionallyDisconnected) {
+        // Keep auth-failed if this close follows a room-level revocation
+        if (this.state !== 'auth-failed') {
+          this.setState('offline');
+        }
+        return;
+      }
+
+      // The browser hides the handshake status, so a socket that never opened may have had its token rejected
+      if (!opened) {
+        this.handleHandshakeFailure();
+        return;
+      }
+
+      this.scheduleReconnect();
     };
 
     this.ws.onmessage = (event) => {
+      if (event.data instanceof ArrayBuffer) {
+        this.handleBinaryMessage(new Uint8Array(event.data));
+        return;
+      }
+
+      this.handleTextMessage(event.data);
+    };
+  }
+
+  /**
+   * Validate a JSON message from the server and handle it if it concerns this document
+   */
+  private handleTextMessage(data: string) {
+    let message: ServerMessage;
+    try {
+      const parsed = serverMessageSchema.safeParse(JSON.parse(data));
+      if (!parsed.success) {
+        console.warn('Ignoring invalid WebSocket message:', parsed.error.issues[0]?.message, data);
+        return;
+      }
+      message = parsed.data;
+    } catch (error) {
+      console.error('Failed to parse WebSocket message:', error);
+      return;
+    }
+
+    // The connection may carry other rooms; only this document's messages are ours
+    const messageDocumentId = 'documentId' in message.data ? message.data.documentId : undefined;
+    if (messageDocumentId !== undefined && messageDocumentId !== this.roomName) {
+      return;
+    }
+
+    this.handleServerMessage(message);
+  }
+
+  private handleServerMessage(message: ServerMessage) {
+    switch (message.type) {
+      case 'yjs-update':
+        try {
+          Y.applyUpdate(this.ydoc, fromBase64(message.data.update), this);
+        } catch (error) {
+          console.error('Failed to decode yjs-update:', error);
+        }
+        break;
+      case 'sync-step-1':
+        try {
+          this.sendSyncStep2(fromBase64(message.data.stateVector));
+        } catch (error) {
+          console.error('Failed to answer sync-step-1:', error);
+        }
+        break;
+      case 'sync-step-2':
+        try {
+          Y.applyUpdate(this.ydoc, fromBase64(message.data.update), this);
+        } catch (error) {
+          console.error('Failed to decode sync-step-2:', error);
+          break;
+        }
+
+        this.markSynced();
+        this.handleCustomMessage({
+          type: 'synced',
+          data: { documentId: message.data.documentId, shouldSeed: message.data.shouldSeed },
+        });
+        break;
+      case 'awareness-update':
+        try {
+          awarenessProtocol.applyAwarenessUpdate(this.awareness, fromBase64(message.data.update), this);
+        } catch (error) {
+          console.error('Failed to decode awareness-update:', error);
+        }
+        break;
+      case 'synced':
+        // Binary mode: the step 2 diff arrived as a frame, this carries the metadata
+        this.markSynced();
+        this.handleCustomMessage(message);
+        break;
+      case 'connected':
+        this.useBinary = message.data.encoding === 'binary';
+        this.protocolVersion = message.data.protocolVersion ?? LEGACY_PROTOCOL_VERSION;
+        this.maxFrameBytes = message.data.maxFrameBytes ?? null;
+        this.startPings();
+        this.handleCustomMessage(message);
+        break;
+      case 'users-in-document':
+        this.participants = new Set(message.data.users.map((user) => user.userId));
+        this.adaptBatching();
+        this.handleCustomMessage(message);
+        break;
+      case 'user-joined':
+        this.participants.add(message.data.user.userId);
+        this.adaptBatching();
+        this.handleCustomMessage(message);
+        break;
+      case 'user-left':
+        this.participants.delete(message.data.user.userId);
+        this.adaptBatching();
+        this.handleCustomMessage(message);
+        break;
+      case 'pong':
+        this.handlePong(message.data.id);
+        break;
+      case 'ack':
+        this.handleAck(message.data.seq);
+        break;
+      case 'state-check-result':
+        this.handleStateCheckResult(message.data);
+        break;
+      case 'resync-required':
+        this.handleResyncRequired();
+        break;
+      case 'message-chunk':
+        this.handleMessageChunk(message.data);
+        break;
+      case 'access-revoked':
+        this.handleAccessRevoked({ code: message.data.code, reason: message.data.reason });
+        // The server has already removed us from the room; nothing else is sent on this socket
+        this.ws?.close();
+        break;
+      case 'error':
+        this.handleServerError(message.data);
+        break;
+    }
+  }
+
+  private handleServerError(error: WebSocketErrorEvent) {
+    console.warn(`WebSocket server error (${error.code}):`, error.message);
+
+    if (error.messageType && UPDATE_MESSAGE_TYPES.has(error.messageType)) {
+      if (error.code === 'RATE_LIMITED') {
+        // Resend as soon as the block lifts instead of waiting out the ack timeout
+        this.scheduleAckCheck(error.retryAfterMs ?? 0);
+      } else if (error.code === 'FORBIDDEN' || error.code === 'INVALID_MESSAGE') {
+        // Resending would be rejected the same way
+        this.dropUnackedUpdates();
+      }
+    }
+
+    this.handleCustomMessage({ type: 'error', data: error });
+  }
+
+  private send(message: ClientMessage) {
+    this.sendFrame(JSON.stringify(message));
+  }
+
+  /**
+   * Send a frame, in chunks when it is larger than the chunk size. Chunks go out one per task,
+   * so cursor updates and other messages are not held up behind a big paste or import
+   */
+  private sendFrame(frame: ChunkData) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const chunkSize = this.getChunkSize();
+    if (chunkSize === null || frame.length <= chunkSize) {
+      this.ws.send(frame);
+      return;
+    }
+
+    const transferId = createTransferId();
+    const chunks = splitMessage(frame, chunkSize);
+    for (const [index, chunk] of chunks.entries()) {
+      const messageChunk = { transferId, index, count: chunks.length };
+      this.outgoingChunks.push(
+        typeof chunk === 'string'
+          ? JSON.stringify({
+              type: 'message-chunk',
+              data: { documentId: this.roomName, ...messageChunk, chunk },
+            } satisfies ClientMessage)
+          : encodeChunkMessage(this.roomName, { ...messageChunk, chunk })
+      );
+    }
+    this.scheduleChunkSend(0);
+  }
+
+  /**
+   * Largest frame to send whole, or null when the server can't reassemble chunks
+   */
+  private getChunkSize(): number | null {
+    if (this.protocolVersion < CHUNKED_PROTOCOL_VERSION) {
+      return null;
+    }
+    // Leave room for the chunk message wrapped around each slice
+    return this.maxFrameBytes
+      ? Math.min(this.CHUNK_SIZE_BYTES, Math.floor(this.maxFrameBytes / 2))
+      : this.CHUNK_SIZE_BYTES;
+  }
+
+  private scheduleChunkSend(delayMs: number) {
+    if (this.chunkSendTimeout) {
+      return;
+    }
+
+    this.chunkSendTimeout = setTimeout(() => {
+      this.chunkSendTimeout = null;
+      this.sendNextChunk();
+    }, delayMs);
+  }
+
+  /**
+   * Send one queued chunk, waiting while the socket still has a chunk's worth unsent
+   */
+  private sendNextChunk() {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+    if (this.ws.bufferedAmount > this.CHUNK_SIZE_BYTES) {
+      this.scheduleChunkSend(50);
+      return;
+    }
+
+    const chunk = this.outgoingChunks.shift();
+    if (chunk !== undefined) {
+      this.ws.send(chunk);
+    }
+    if (this.outgoingChunks.length > 0) {
+      this.scheduleChunkSend(0);
+    }
+  }
+
+  /**
+   * Collect a chunk of a large server message and handle the message once it is complete
+   */
+  private handleMessageChunk(chunk: MessageChunk) {
+    pruneTransfers(this.incomingTransfers, CHUNK_TRANSFER_TIMEOUT_MS);
+
+    let message: ChunkData | null;
+    try {
+      message = addChunk(this.incomingTransfers, chunk, MAX_CHUNKED_MESSAGE_BYTES);
+    } catch (error) {
+      if (error instanceof ChunkTransferError) {
+        console.error('Dropping chunked message:', error.message);
+        return;
+      }
+      throw error;
+    }
+
+    if (typeof message === 'string') {
+      this.handleTextMessage(message);
+    } else if (message !== null) {
+      this.handleBinaryMessage(message);
+    }
+  }
+
+  /**
+   * Forget partial transfers in both directions; after a reconnect the join sync covers them
+   */
+  private resetChunks() {
+    this.incomingTransfers.clear();
+    this.outgoingChunks = [];
+    if (this.chunkSendTimeout) {
+      clearTimeout(this.chunkSendTimeout);
+      this.chunkSendTimeout = null;
+    }
+  }
+
+  /**
+   * Stop syncing for good once the server revokes access, by close code or room message
+   */
+  private handleAccessRevoked(revokedEvent: AccessRevokedEvent) {
+    // Reconnecting would only be rejected again
+    this.isIntentionallyDisconnected = true;
+    if (revokedEvent.reason !== 'token-revoked') {
+      // The user may no longer read this document, so don't keep a copy of it
+      this.persistence.clearData().catch((error) => {
+        console.error('Failed to clear local document copy:', error);
+      });
+    }
+    this.setState('auth-failed');
+    this.handleCustomMessage({ type: 'access-revoked', data: revokedEvent });
+  }
+
+  private startPings() {
+    if (this.pingInterval || this.PING_INTERVAL_MS <= 0) {
+      return;
+    }
+    if (this.protocolVersion < PING_PROTOCOL_VERSION) {
+      return;
+    }
+
+    this.sendPing();
+    this.pingInterval = setInterval(() => this.sendPing(), this.PING_INTERVAL_MS);
+  }
+
+  private stopPings() {
+    if (this.pingInterval) {
+      clearInterval(this.pingInterval);
+      this.pingInterval = null;
+    }
+    this.pendingPings.clear();
+  }
+
+  private sendPing() {
+    if (!this.ws || !this.isConnected()) {
+      return;
+    }
+
+    // A pong that hasn't arrived by the next ping is not worth waiting for
+    this.pendingPings.clear();
+    const id = this.nextPingId++;
+    this.pendingPings.set(id, Date.now());
+    this.send({ type: 'ping', data: { id } });
+  }
+
+  /**
+   * Fold a new round-trip sample into the smoothed RTT and retune batching for it
+   */
+  private handlePong(id: number) {
+    const sentAt = this.pendingPings.get(id);
+    if (sentAt === undefined) {
+      return;
+    }
+    this.pendingPings.delete(id);
+
+    const sample = Date.now() - sentAt;
+    this.lastRttMs = sample;
+    this.rttMs = this.rttMs === null ? sample : Math.round(this.rttMs * 0.875 + sample * 0.125);
+    this.adaptBatching();
+  }
+
+  /**
+   * Derive the batching settings from the configured ones. On a slow link sending more often
+   * than every half round trip only adds overhead, and every other participant multiplies what
+   * each update costs the server, so both stretch the debounce, batch size and throttling.
+   */
+  private adaptBatching() {
+    const base = this.baseBatching;
+    if (!this.ADAPTIVE) {
+      this.applyBatching(base);
+      return;
+    }
+
+    const rtt = this.rttMs ?? 0;
+    const others = Math.max(0, this.participants.size - 1);
+    const throttle = rtt >= THROTTLE_RTT_MS || others >= THROTTLE_PARTICIPANTS;
+
+    this.applyBatching({
+      yjsDebounceMs: Math.min(
+        Math.max(base.yjsDebounceMs, Math.round(rtt / 2)) + others * 10,
+        Math.max(base.yjsDebounceMs, MAX_ADAPTIVE_YJS_DEBOUNCE_MS)
+      ),
+      awarenessDebounceMs: Math.min(
+        Math.max(base.awarenessDebounceMs, Math.round(rtt / 4)) + others * 5,
+        Math.max(base.awarenessDebounceMs, MAX_ADAPTIVE_AWARENESS_DEBOUNCE_MS)
+      ),
+      maxYjsBatchSize: Math.min(
+        Math.round(base.maxYjsBatchSize * (1 + rtt / 250)),
+        Math.max(base.maxYjsBatchSize, MAX_ADAPTIVE_YJS_BATCH_SIZE)
+      ),
+      maxAwarenessBatchSize: base.maxAwarenessBatchSize,
+      enableThrottling: base.enableThrottling || throttle,
+      throttleIntervalMs: throttle ? Math.max(base.throttleIntervalMs, rtt) : base.throttleIntervalMs,
+    });
+  }
+
+  private applyBatching(batching: BatchingConfig) {
+    this.YJS_DEBOUNCE_MS = batching.yjsDebounceMs;
+    this.AWARENESS_DEBOUNCE_MS = batching.awarenessDebounceMs;
+    this.MAX_YJS_BATCH_SIZE = batching.maxYjsBatchSize;
+    this.MAX_AWARENESS_BATCH_SIZE = batching.maxAwarenessBatchSize;
+    this.ENABLE_THROTTLING = batching.enableThrottling;
+    this.THROTTLE_INTERVAL_MS = batching.throttleIntervalMs;
+  }
+
+  private markSynced() {
+    this.synced = true;
+    this.hasSyncedOnce = true;
+    this.reconnectAttempt = 0;
+    this.setState('synced');
+    this.startStateChecks();
+  }
+
+  private startStateChecks() {
+    if (this.stateCheckInterval || this.STATE_CHECK_INTERVAL_MS <= 0) {
+      return;
+    }
+
+    this.stateCheckInterval = setInterval(() => this.sendStateCheck(), this.STATE_CHECK_INTERVAL_MS);
+  }
+
+  private stopStateChecks() {
+    if (this.stateCheckInterval) {
+      clearInterval(this.stateCheckInterval);
+      this.stateCheckInterval = null;
+    }
+  }
+
+  /**
+   * Send our state vector and content checksum so the server can spot divergence.
+   * Skipped while updates are queued or unacknowledged, since the server can't have them yet.
+   */
+  private sendStateCheck() {
+    if (!this.ws || !this.isConnected() || !this.synced) {
+      return;
+    }
+    if (this.protocolVersion < SEQUENCED_PROTOCOL_VERSION) {
+      return;
+    }
+    if (this.pendingYjsUpdates.length > 0 || this.unackedUpdates.size > 0) {
+      return;
+    }
+
+    this.send({
+      type: 'state-check',
+      data: {
+        documentId: this.roomName,
+        stateVector: toBase64(Y.encodeStateVector(this.ydoc)),
+        checksum: computeDocumentChecksum(this.ydoc, 'quill'),
+      },
+    });
+  }
+
+  private handleStateCheckResult(data: ServerMessageData<'state-check-result'>) {
+    if (data.inSync) {
+      return;
+    }
+
+    this.resyncCount++;
+    const { divergence } = data;
+
+    if (divergence === 'checksum-mismatch') {
+      // Same updates on both sides but different content (e.g. a lost deletion):
+      // state vectors can't tell what is missing, so exchange the full state both ways
+      console.warn(`Document ${this.roomName} diverged from the server, resyncing full state`);
+      this.sendSyncStep2(EMPTY_STATE_VECTOR);
+      this.sendSyncStep1(EMPTY_STATE_VECTOR);
+    } else {
+      this.sendSyncStep2(fromBase64(data.stateVector));
+      this.sendSyncStep1(Y.encodeStateVector(this.ydoc));
+    }
+
+    const resyncEvent: ResyncEvent = { documentId: this.roomName, divergence };
+    this.handleCustomMessage({ type: 'resync', data: resyncEvent });
+  }
+
+  /**
+   * The server dropped updates it could not deliver fast enough; fetch whatever we are missing
+   */
+  private handleResyncRequired() {
+    console.warn(`Server dropped updates for ${this.roomName}, resyncing`);
+    this.resyncCount++;
+    this.sendSyncStep1(Y.encodeStateVector(this.ydoc));
+
+    const resyncEvent: ResyncEvent = { documentId: this.roomName };
+    this.handleCustomMessage({ type: 'resync', data: resyncEvent });
+  }
+
+  private setState(state: ConnectionState, retryInMs?: number) {
+    if (state === this.state && retryInMs === undefined) {
+      return;
+    }
+
+    const event: ConnectionStatusEvent = {
+      state,
+      previousState: this.state,
+      attempt: this.reconnectAttempt,
+      ...(retryInMs !== undefined && { retryInMs }),
+    };
+    this.state = state;
+    this.handleCustomMessage({ type: 'status', data: event });
+  }
+
+  /**
+   * Retry with exponential backoff and full jitter, capped at RECONNECT_MAX_DELAY_MS
+   */
+  private scheduleReconnect() {
+    if (this.isIntentionallyDisconnected) {
+      return;
+    }
+
+    // Hidden tabs reconnect when shown again, offline browsers when the network returns
+    if (this.isTabHidden || (typeof navigator !== 'undefined' && !navigator.onLine)) {
+      this.setState('offline');
+      return;
+    }
+
+    const ceiling = Math.min(this.RECONNECT_MAX_DELAY_MS, this.RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt);
+    const delay = Math.round(Math.random() * ceiling);
+    this.reconnectAttempt++;
+
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+    }
+    this.setState('reconnecting', delay);
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect();
+    }, delay);
+  }
+
+  /**
+   * Fetch a fresh token once per failure streak before retrying; an expired token
+   * that cannot be replaced means the user has to sign in again
+   */
+  private async handleHandshakeFailure() {
+    if (this.getToken && !this.tokenRefreshAttempted) {
+      this.tokenRefreshAttempted = true;
       try {
-        const message = JSON.parse(event.data);
-        
-        switch (message.type) {
-          case 'yjs-update':
-            {
-              if (!message.data?.update) {
-                console.warn('yjs-update missing update data');
-                break;
-              }
-              
-              const updateData = message.data.update;
-              if (typeof updateData !== 'string' || updateData.length === 0) {
-                console.warn('yjs-update has invalid update data format');
-                break;
-              }
-              
-              try {
-                const update = fromBase64(updateData);
-                Y.applyUpdate(this.ydoc, update, this);
-              } catch (error) {
-                console.error('Failed to decode yjs-update:', error);
-              }
-              break;
-            }
-          case 'awareness-update':
-            {
-              if (!message.data?.update) {
-                break;
-              }
-              
-              const awarenessData = message.data.update;
-              if (typeof awarenessData !== 'string' || awarenessData.length === 0) {
-                break;
-              }
-              
-              try {
-                const update = fromBase64(awarenessData);
-                awarenessProtocol.applyAwarenessUpdate(this.awareness, update, this);
-              } catch (error) {
-                console.error('Failed to decode awareness-update:', error);
-              }
-              break;
-            }
-          case 'users-in-document':
-          case 'user-joined':
-          case 'user-left':
-          case 'connected':
-            this.handleCustomMessage(message);
-            break;
-          default:
-            console.warn('Unknown message type:', message.type, message);
+        const token = await this.getToken();
+        if (token && token !== this.token) {
+          this.token = token;
+          this.reconnectAttempt = 0;
+          this.connect();
+          return;
         }
       } catch (error) {
-        console.error('Failed to parse WebSocket message:', error);
+        console.error('Failed to refresh WebSocket token:', error);
       }
-    };
+    }
+
+    if (this.isTokenExpired()) {
+      this.setState('auth-failed');
+      return;
+    }
+
+    this.scheduleReconnect();
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  private handleCustomMessage(message: { type: string; data: any }) {
+  private isTokenExpired(): boolean {
+    try {
+      const payload = this.token.split('.')[1];
+      const claims = JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+      return typeof claims.exp === 'number' && claims.exp * 1000 <= Date.now();
+    } catch {
+      return false;
+    }
+  }
+
+  private handleOnline() {
+    if (!this.isIntentionallyDisconnected && !this.isConnected()) {
+      this.reconnectAttempt = 0;
+      this.connect();
+    }
+  }
+
+  private handleOffline() {
+    if (!this.isConnected()) {
+      this.setState('offline');
+    }
+  }
+
+  private removeNetworkListeners() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', this.handleOnline);
+      window.removeEventListener('offline', this.handleOffline);
+    }
+  }
+
+  /**
+   * Handle binary Yjs sync and awareness frames
+   */
+  private handleBinaryMessage(data: Uint8Array) {
+    try {
+      const { messageType, documentId, decoder } = decodeEnvelope(data);
+      if (documentId !== this.roomName) {
+        return;
+      }
+
+      switch (messageType) {
+        case MESSAGE_SYNC:
+          {
+            const { syncType, payload } = decodeSyncPayload(decoder);
+            if (syncType === SYNC_STEP_1) {
+              this.sendSyncStep2(payload);
+            } else if (syncType === SYNC_STEP_2 || syncType === SYNC_UPDATE) {
+              Y.applyUpdate(this.ydoc, payload, this);
+            }
+            break;
+          }
+        case MESSAGE_AWARENESS:
+          awarenessProtocol.applyAwarenessUpdate(this.awareness, decodeAwarenessPayload(decoder), this);
+          break;
+        case MESSAGE_CHUNK:
+          this.handleMessageChunk(decodeChunkPayload(decoder));
+          break;
+        default:
+          console.warn('Unknown binary message type:', messageType);
+      }
+    } catch (error) {
+      console.error('Failed to decode binary WebSocket message:', error);
+    }
+  }
+
+  /**
+   * Ask the server for whatever a state vector is missing
+   */
+  private sendSyncStep1(stateVector: Uint8Array) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    if (this.useBinary) {
+      this.sendFrame(encodeSyncMessage(this.roomName, SYNC_STEP_1, stateVector));
+      return;
+    }
+
+    this.send({
+      type: 'sync-step-1',
+      data: {
+        documentId: this.roomName,
+        stateVector: toBase64(stateVector),
+      },
+    });
+  }
+
+  /**
+   * Answer the server's state vector with every local change it has not seen yet
+   */
+  private sendSyncStep2(serverStateVector: Uint8Array) {
+    if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    // The diff covers everything queued while offline, so the queue can go
+    this.pendingYjsUpdates = [];
+    if (this.yjsUpdateTimeout) {
+      clearTimeout(this.yjsUpdateTimeout);
+      this.yjsUpdateTimeout = null;
+    }
+
+    const diff = Y.encodeStateAsUpdate(this.ydoc, serverStateVector);
+    // An empty update is just the two zero-length headers
+    if (diff.length === 2 && diff[0] === 0 && diff[1] === 0) {
+      return;
+    }
+
+    this.sendSequencedUpdate('sync-step-2', diff);
+  }
+
+  private handleCustomMessage<K extends ProviderEvent>(message: { type: K; data: ProviderEventMap[K] }) {
     switch (message.type) {
       case 'users-in-document':
         {
@@ -303,6 +1252,54 @@ export class CustomWebsocketProvider {
           }
           break;
         }
+      case 'access-revoked':
+        {
+          const callback = this.callbacks.get('access-revoked');
+          if (callback) {
+            callback(message.data);
+          }
+          break;
+        }
+      case 'status':
+        {
+          const callback = this.callbacks.get('status');
+          if (callback) {
+            callback(message.data);
+          }
+          break;
+        }
+      case 'local-synced':
+        {
+          const callback = this.callbacks.get('local-synced');
+          if (callback) {
+            callback(message.data);
+          }
+          break;
+        }
+      case 'error':
+        {
+          const callback = this.callbacks.get('error');
+          if (callback) {
+            callback(message.data);
+          }
+          break;
+        }
+      case 'resync':
+        {
+          const callback = this.callbacks.get('resync');
+          if (callback) {
+            callback(message.data);
+          }
+          break;
+        }
+      case 'synced':
+        {
+          const callback = this.callbacks.get('synced');
+          if (callback) {
+            callback(message.data);
+          }
+          break;
+        }
       case 'connected':
         {
           break;
@@ -312,12 +1309,11 @@ export class CustomWebsocketProvider {
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  on(event: string, callback: (data: any) => void) {
+  on<K extends ProviderEvent>(event: K, callback: (data: ProviderEventMap[K]) => void) {
     this.callbacks.set(event, callback);
   }
 
-  off(event: string) {
+  off(event: ProviderEvent) {
     this.callbacks.delete(event);
   }
 
@@ -343,7 +1339,12 @@ export class CustomWebsocketProvider {
     if (this.ws) {
       this.ws.close();
     }
-    
+
+    this.resetAcks();
+    this.resetChunks();
+    this.stopStateChecks();
+    this.stopPings();
+    this.removeNetworkListeners();
     this.ydoc.off('update', this.onUpdate);
     this.awareness.off('update', this.onAwarenessUpdate);
   }
@@ -372,7 +1373,12 @@ export class CustomWebsocketProvider {
     if (this.ws) {
       this.ws.close();
     }
-    
+
+    this.resetAcks();
+    this.resetChunks();
+    this.stopStateChecks();
+    this.stopPings();
+    this.removeNetworkListeners();
     this.ydoc.off('update', this.onUpdate);
     this.awareness.off('update', this.onAwarenessUpdate);
   }
@@ -396,12 +1402,33 @@ export class CustomWebsocketProvider {
     return this.ws?.readyState === WebSocket.OPEN;
   }
 
+  /**
+   * Get the current connection state
+   */
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  /**
+   * Check if the local IndexedDB copy has been loaded into the document
+   */
+  isLocalSynced(): boolean {
+    return this.localSynced;
+  }
+
+  /**
+   * Check if the initial state-vector exchange with the server has completed
+   */
+  isSynced(): boolean {
+    return this.synced;
+  }
+
   /**
    * Handle tab visibility change
    */
   setTabHidden(hidden: boolean) {
     this.isTabHidden = hidden;
-    if (!hidden && !this.isConnected() && !this.isIntentionallyDisconnected) {
+    if (!hidden && !this.isConnected() && !this.isIntentionallyDisconnected && !this.reconnectTimeout) {
       this.connect();
     }
   }
@@ -413,6 +1440,7 @@ export class CustomWebsocketProvider {
     return {
       yjs: {
         pendingUpdates: this.pendingYjsUpdates.length,
+        unackedUpdates: this.unackedUpdates.size,
         lastSendTime: this.lastYjsSendTime,
         debounceMs: this.YJS_DEBOUNCE_MS,
         maxBatchSize: this.MAX_YJS_BATCH_SIZE,
@@ -429,22 +1457,36 @@ export class CustomWebsocketProvider {
       },
       connection: {
         isConnected: this.isConnected(),
+        state: this.state,
+        reconnectAttempt: this.reconnectAttempt,
+        isSynced: this.synced,
+        isLocalSynced: this.localSynced,
+        encoding: this.useBinary ? 'binary' : 'json',
+        protocolVersion: this.protocolVersion,
+        queuedChunks: this.outgoingChunks.length,
+        resyncCount: this.resyncCount,
         isTabHidden: this.isTabHidden,
         isIntentionallyDisconnected: this.isIntentionallyDisconnected,
-      }
+      },
+      network: {
+        rttMs: this.rttMs,
+        lastRttMs: this.lastRttMs,
+        participants: this.participants.size,
+        adaptive: this.ADAPTIVE,
+        baseConfig: { ...this.baseBatching },
+      },
     };
   }
 
   leaveDocument() {
     this.isIntentionallyDisconnected = true;
     if (this.ws && this.ws.readyState === WebSocket.OPEN) {
-      const leaveMessage = {
+      this.send({
         type: 'leave-document',
         data: {
           documentId: this.roomName
         },
-      };
-      this.ws.send(JSON.stringify(leaveMessage));
+      });
     }
   }
 
@@ -485,26 +1527,31 @@ export class CustomWebsocketProvider {
   }
 
   /**
-   * Update debouncing configuration at runtime
+   * Update debouncing configuration at runtime; with adaptive batching on, the new values
+   * are the floor the adapted ones start from
    */
   updateConfig(newConfig: Partial<WebSocketProviderConfig>) {
     if (newConfig.yjsDebounceMs !== undefined) {
-      (this as any).YJS_DEBOUNCE_MS = newConfig.yjsDebounceMs;
+      this.baseBatching.yjsDebounceMs = newConfig.yjsDebounceMs;
     }
     if (newConfig.awarenessDebounceMs !== undefined) {
-      (this as any).AWARENESS_DEBOUNCE_MS = newConfig.awarenessDebounceMs;
+      this.baseBatching.awarenessDebounceMs = newConfig.awarenessDebounceMs;
     }
     if (newConfig.maxYjsBatchSize !== undefined) {
-      (this as any).MAX_YJS_BATCH_SIZE = newConfig.maxYjsBatchSize;
+      this.baseBatching.maxYjsBatchSize = newConfig.maxYjsBatchSize;
     }
     if (newConfig.maxAwarenessBatchSize !== undefined) {
-      (this as any).MAX_AWARENESS_BATCH_SIZE = newConfig.maxAwarenessBatchSize;
+      this.baseBatching.maxAwarenessBatchSize = newConfig.maxAwarenessBatchSize;
     }
     if (newConfig.enableThrottling !== undefined) {
-      (this as any).ENABLE_THROTTLING = newConfig.enableThrottling;
+      this.baseBatching.enableThrottling = newConfig.enableThrottling;
     }
     if (newConfig.throttleIntervalMs !== undefined) {
-      (this as any).THROTTLE_INTERVAL_MS = newConfig.throttleIntervalMs;
+      this.baseBatching.throttleIntervalMs = newConfig.throttleIntervalMs;
+    }
+    if (newConfig.adaptive !== undefined) {
+      this.ADAPTIVE = newConfig.adaptive;
     }
+    this.adaptBatching();
   }
 } 
\ No newline at end of file
@@ -17,6 +17,7 @@ export interface Document {
   title: string
   content?: string
   ownerId: string
+  revision?: number
   createdAt: string
   updatedAt: string
   owner: User
@@ -56,6 +57,65 @@ export interface DocumentListResult {
   }[]
 }
 
+// Named snapshot of a document (content is only included when fetching a single version)
+export interface DocumentVersion {
+  id: string
+  documentId: string
+  name: string
+  kind: 'manual' | 'auto'
+  title: string
+  createdAt: string
+  createdBy: User | null
+  content?: string
+}
+
+export interface EditHistoryEntry {
+  id: string
+  documentId: string
+  userId: string
+  timestamp: string
+  user: User
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'insert' | 'delete'
+  text: string
+}
+
+export interface DiffRevision {
+  source: 'current' | 'history' | 'version'
+  id: string | null
+  label: string
+  timestamp: string
+}
+
+export interface DocumentDiff {
+  from: DiffRevision
+  to: DiffRevision
+  title: DiffSegment[]
+  content: DiffSegment[]
+  stats: {
+    insertedWords: number
+    deletedWords: number
+    unchangedWords: number
+  }
+}
+
+export interface DocumentRevisionsResult {
+  success: boolean
+  message: string
+  data?: {
+    versions: DocumentVersion[]
+    history: EditHistoryEntry[]
+  }
+}
+
+export interface DocumentDiffResult {
+  success: boolean
+  message: string
+  data?: DocumentDiff
+}
+
 // Document filter types
 export type DocumentFilter = 'accessible' | 'owned' | 'shared'
 
@@ -0,0 +1,26 @@
+const FNV_OFFSET_BASIS = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * 32-bit FNV-1a hash of a string, as 8 hex characters
+ */
+const fnv1a = (value: string): string => {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, FNV_PRIME) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+// The part of a Y.Doc the checksum reads, so each app can pass the Y.Doc of its own yjs copy
+export interface ChecksumDocument {
+  getText(name: string): { toDelta(): unknown };
+}
+
+/**
+ * Checksum of a shared text's content and formatting; converged docs produce the same value
+ * on client and server, while state vectors alone miss dropped deletions
+ */
+export const computeDocumentChecksum = (doc: ChecksumDocument, textName: string): string =>
+  fnv1a(JSON.stringify(doc.getText(textName).toDelta()));
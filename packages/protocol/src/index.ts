@@ -0,0 +1,4 @@
+export * from './websocket.protocol';
+export * from './websocket-envelope';
+export * from './message-chunks';
+export * from './document-checksum';
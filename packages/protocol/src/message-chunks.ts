@@ -0,0 +1,138 @@
+/**
+ * Messages larger than a frame travel as chunks: consecutive slices of the serialized message
+ * (JSON text, or a whole binary frame) that the receiver concatenates and handles as if the
+ * message had arrived in one piece. Runs in Node and the browser, so it only uses portable APIs.
+ */
+export type ChunkData = string | Uint8Array;
+
+export interface MessageChunk {
+  transferId: string;
+  index: number;
+  count: number;
+  chunk: ChunkData;
+}
+
+export interface ChunkTransfer {
+  binary: boolean;
+  chunks: ChunkData[];
+  received: number;
+  bytes: number;
+  startedAt: number;
+}
+
+export class ChunkTransferError extends Error {
+  constructor(
+    message: string,
+    // The reassembled message would exceed the size limit
+    public readonly tooLarge: boolean = false
+  ) {
+    super(message);
+    this.name = 'ChunkTransferError';
+  }
+}
+
+// Every chunk but the last is at least this long, which bounds how many chunks a message needs
+export const MIN_CHUNK_SIZE = 1024;
+// Most chunks a transfer may announce, whatever the receiver's size limit (64 MiB in minimal chunks)
+export const MAX_CHUNK_COUNT = 65536;
+
+/**
+ * Most chunks a message within `maxBytes` can take
+ */
+export const maxChunkCount = (maxBytes: number): number =>
+  Math.min(Math.ceil(maxBytes / MIN_CHUNK_SIZE), MAX_CHUNK_COUNT);
+
+// Only needs to be unique among one socket's transfers in flight
+export const createTransferId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/**
+ * Cut a serialized message into slices of at most `chunkSize` (but no less than MIN_CHUNK_SIZE)
+ * characters or bytes
+ */
+export const splitMessage = <T extends ChunkData>(message: T, chunkSize: number): T[] => {
+  const size = Math.max(chunkSize, MIN_CHUNK_SIZE);
+  const chunks: T[] = [];
+  for (let offset = 0; offset < message.length; offset += size) {
+    chunks.push(message.slice(offset, offset + size) as T);
+  }
+  return chunks;
+};
+
+/**
+ * Add a received chunk to its transfer, returning the whole message once every chunk is in
+ */
+export const addChunk = (
+  transfers: Map<string, ChunkTransfer>,
+  { transferId, index, count, chunk }: MessageChunk,
+  maxBytes: number
+): ChunkData | null => {
+  const binary = typeof chunk !== 'string';
+  let transfer = transfers.get(transferId);
+  // Checked before the chunk list is allocated, since `count` comes from the sender
+  if (!transfer && count > maxChunkCount(maxBytes)) {
+    throw new ChunkTransferError(
+      `Chunked message of ${count} chunks exceeds the ${maxBytes} byte limit`,
+      true
+    );
+  }
+  if (!transfer && count >= 1) {
+    transfer = { binary, chunks: new Array(count), received: 0, bytes: 0, startedAt: Date.now() };
+    transfers.set(transferId, transfer);
+  }
+
+  if (
+    !transfer ||
+    count !== transfer.chunks.length ||
+    index >= count ||
+    transfer.chunks[index] !== undefined ||
+    binary !== transfer.binary
+  ) {
+    transfers.delete(transferId);
+    throw new ChunkTransferError(
+      `Unexpected chunk ${index + 1}/${count} of transfer ${transferId}`
+    );
+  }
+
+  transfer.bytes += chunk.length;
+  if (transfer.bytes > maxBytes) {
+    transfers.delete(transferId);
+    throw new ChunkTransferError(`Chunked message exceeds the ${maxBytes} byte limit`, true);
+  }
+
+  transfer.chunks[index] = chunk;
+  transfer.received++;
+  if (transfer.received < count) {
+    return null;
+  }
+
+  transfers.delete(transferId);
+  return joinChunks(transfer);
+};
+
+/**
+ * Forget transfers whose remaining chunks never arrived
+ */
+export const pruneTransfers = (transfers: Map<string, ChunkTransfer>, maxAgeMs: number): void => {
+  const cutoff = Date.now() - maxAgeMs;
+  for (const [transferId, transfer] of transfers) {
+    if (transfer.startedAt < cutoff) {
+      transfers.delete(transferId);
+    }
+  }
+};
+
+const joinChunks = ({ binary, chunks }: ChunkTransfer): ChunkData => {
+  if (!binary) {
+    return chunks.join('');
+  }
+
+  const bytes = chunks as Uint8Array[];
+  const message = new Uint8Array(bytes.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of bytes) {
+    message.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return message;
+};
@@ -0,0 +1,110 @@
+import * as encoding from 'lib0/encoding';
+import * as decoding from 'lib0/decoding';
+
+/**
+ * Binary frame layout: [messageType: varUint][documentId: varString][payload]
+ * Control messages stay JSON; only Yjs and awareness traffic uses this envelope.
+ * Sync payloads sent by clients may end with a varUint sequence number the server acks.
+ */
+export const MESSAGE_SYNC = 0;
+export const MESSAGE_AWARENESS = 1;
+// A slice of a larger binary frame, see message-chunks
+export const MESSAGE_CHUNK = 2;
+
+// Sync payload subtypes, matching y-protocols/sync
+export const SYNC_STEP_1 = 0;
+export const SYNC_STEP_2 = 1;
+export const SYNC_UPDATE = 2;
+
+export interface BinaryEnvelope {
+  messageType: number;
+  documentId: string;
+  decoder: decoding.Decoder;
+}
+
+export interface ChunkPayload {
+  transferId: string;
+  index: number;
+  count: number;
+  chunk: Uint8Array;
+}
+
+export interface SyncPayload {
+  syncType: number;
+  payload: Uint8Array;
+  seq?: number;
+}
+
+/**
+ * Encode a binary frame with the given payload writer
+ */
+export const encodeEnvelope = (
+  messageType: number,
+  documentId: string,
+  writePayload: (encoder: encoding.Encoder) => void
+): Uint8Array => {
+  const encoder = encoding.createEncoder();
+  encoding.writeVarUint(encoder, messageType);
+  encoding.writeVarString(encoder, documentId);
+  writePayload(encoder);
+  return encoding.toUint8Array(encoder);
+};
+
+/**
+ * Decode the envelope header, leaving the decoder positioned at the payload
+ */
+export const decodeEnvelope = (data: Uint8Array): BinaryEnvelope => {
+  const decoder = decoding.createDecoder(data);
+  const messageType = decoding.readVarUint(decoder);
+  const documentId = decoding.readVarString(decoder);
+  return { messageType, documentId, decoder };
+};
+
+export const encodeSyncMessage = (
+  documentId: string,
+  syncType: number,
+  payload: Uint8Array,
+  seq?: number
+): Uint8Array =>
+  encodeEnvelope(MESSAGE_SYNC, documentId, encoder => {
+    encoding.writeVarUint(encoder, syncType);
+    encoding.writeVarUint8Array(encoder, payload);
+    if (seq !== undefined) {
+      encoding.writeVarUint(encoder, seq);
+    }
+  });
+
+export const decodeSyncPayload = (decoder: decoding.Decoder): SyncPayload => {
+  const syncType = decoding.readVarUint(decoder);
+  const payload = decoding.readVarUint8Array(decoder);
+  if (!decoding.hasContent(decoder)) {
+    return { syncType, payload };
+  }
+  return { syncType, payload, seq: decoding.readVarUint(decoder) };
+};
+
+export const encodeAwarenessMessage = (documentId: string, update: Uint8Array): Uint8Array =>
+  encodeEnvelope(MESSAGE_AWARENESS, documentId, encoder => {
+    encoding.writeVarUint8Array(encoder, update);
+  });
+
+export const decodeAwarenessPayload = (decoder: decoding.Decoder): Uint8Array =>
+  decoding.readVarUint8Array(decoder);
+
+export const encodeChunkMessage = (
+  documentId: string,
+  { transferId, index, count, chunk }: ChunkPayload
+): Uint8Array =>
+  encodeEnvelope(MESSAGE_CHUNK, documentId, encoder => {
+    encoding.writeVarString(encoder, transferId);
+    encoding.writeVarUint(encoder, index);
+    encoding.writeVarUint(encoder, count);
+    encoding.writeVarUint8Array(encoder, chunk);
+  });
+
+export const decodeChunkPayload = (decoder: decoding.Decoder): ChunkPayload => ({
+  transferId: decoding.readVarString(decoder),
+  index: decoding.readVarUint(decoder),
+  count: decoding.readVarUint(decoder),
+  chunk: decoding.readVarUint8Array(decoder),
+});
@@ -0,0 +1,310 @@
+import { z } from 'zod';
+import { MAX_CHUNK_COUNT } from './message-chunks';
+
+/**
+ * JSON WebSocket protocol spoken by the backend and the frontend.
+ * Bump PROTOCOL_VERSION for breaking changes.
+ * Binary frames (Yjs and awareness traffic) are described in websocket-envelope.ts.
+ */
+export const PROTOCOL_VERSION = 5;
+// Clients that don't announce a version speak the original, unversioned protocol
+export const LEGACY_PROTOCOL_VERSION = 1;
+export const MIN_PROTOCOL_VERSION = 1;
+
+const documentIdSchema = z.string().min(1, 'Document ID is required');
+const base64Schema = z.string();
+const updateSchema = z.string().min(1, 'Update is required');
+const seqSchema = z.number().int().nonnegative();
+
+const userSchema = z.object({
+  userId: z.string(),
+  username: z.string(),
+});
+
+// Client → server messages
+
+export const joinDocumentMessageSchema = z.object({
+  type: z.literal('join-document'),
+  data: z.object({
+    documentId: documentIdSchema,
+    stateVector: base64Schema.optional(),
+  }),
+});
+
+export const leaveDocumentMessageSchema = z.object({
+  type: z.literal('leave-document'),
+  // Without a document ID every joined document is left
+  data: z.object({ documentId: documentIdSchema.optional() }).default({}),
+});
+
+export const clientSyncStep1MessageSchema = z.object({
+  type: z.literal('sync-step-1'),
+  data: z.object({
+    documentId: documentIdSchema,
+    stateVector: base64Schema,
+  }),
+});
+
+const clientUpdateDataSchema = z.object({
+  documentId: documentIdSchema,
+  update: updateSchema,
+  seq: seqSchema.optional(),
+});
+
+export const clientSyncStep2MessageSchema = z.object({
+  type: z.literal('sync-step-2'),
+  data: clientUpdateDataSchema,
+});
+
+export const clientYjsUpdateMessageSchema = z.object({
+  type: z.literal('yjs-update'),
+  data: clientUpdateDataSchema,
+});
+
+export const clientAwarenessUpdateMessageSchema = z.object({
+  type: z.literal('awareness-update'),
+  data: z.object({
+    documentId: documentIdSchema,
+    update: updateSchema,
+  }),
+});
+
+export const stateCheckMessageSchema = z.object({
+  type: z.literal('state-check'),
+  data: z.object({
+    documentId: documentIdSchema,
+    stateVector: base64Schema,
+    checksum: z.string().min(1, 'Checksum is required'),
+  }),
+});
+
+// A slice of a JSON message too large for one frame; see message-chunks
+const messageChunkDataSchema = z.object({
+  documentId: documentIdSchema,
+  transferId: z.string().min(1, 'Transfer ID is required'),
+  index: z.number().int().nonnegative(),
+  count: z.number().int().positive().max(MAX_CHUNK_COUNT),
+  chunk: z.string(),
+});
+
+export const messageChunkMessageSchema = z.object({
+  type: z.literal('message-chunk'),
+  data: messageChunkDataSchema,
+});
+
+// Latency probe; the server answers with a pong carrying the same ID
+export const pingMessageSchema = z.object({
+  type: z.literal('ping'),
+  data: z.object({ id: z.number().int().nonnegative() }),
+});
+
+export const clientMessageSchema = z.discriminatedUnion('type', [
+  joinDocumentMessageSchema,
+  leaveDocumentMessageSchema,
+  clientSyncStep1MessageSchema,
+  clientSyncStep2MessageSchema,
+  clientYjsUpdateMessageSchema,
+  clientAwarenessUpdateMessageSchema,
+  stateCheckMessageSchema,
+  messageChunkMessageSchema,
+  pingMessageSchema,
+]);
+
+export type ClientMessage = z.infer<typeof clientMessageSchema>;
+export type ClientMessageType = ClientMessage['type'];
+export type ClientMessageData<T extends ClientMessageType> = Extract<
+  ClientMessage,
+  { type: T }
+>['data'];
+
+// Server → client messages
+
+export const connectedMessageSchema = z.object({
+  type: z.literal('connected'),
+  data: z.object({
+    message: z.string(),
+    encoding: z.enum(['binary', 'json']),
+    // Version both sides speak: the lower of the client's and the server's.
+    // Absent from servers that predate versioning, which speak version 1
+    protocolVersion: z.number().int().optional(),
+    serverProtocolVersion: z.number().int().optional(),
+    // Largest frame the server accepts; bigger messages must be sent in chunks
+    maxFrameBytes: z.number().int().positive().optional(),
+  }),
+});
+
+export const errorCodeSchema = z.enum([
+  'RATE_LIMITED',
+  'NOT_JOINED',
+  'FORBIDDEN',
+  'INVALID_MESSAGE',
+  'PAYLOAD_TOO_LARGE',
+  'INTERNAL_ERROR',
+  'STORAGE_FAILED',
+]);
+
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+
+export const errorMessageSchema = z.object({
+  type: z.literal('error'),
+  data: z.object({
+    code: errorCodeSchema,
+    message: z.string(),
+    documentId: z.string().optional(),
+    // Type of the rejected message, when known
+    messageType: z.string().optional(),
+    // How long to wait before sending that message type again
+    retryAfterMs: z.number().int().nonnegative().optional(),
+  }),
+});
+
+export const usersInDocumentMessageSchema = z.object({
+  type: z.literal('users-in-document'),
+  data: z.object({
+    documentId: z.string(),
+    users: z.array(userSchema),
+  }),
+});
+
+export const userJoinedMessageSchema = z.object({
+  type: z.literal('user-joined'),
+  data: z.object({ documentId: z.string(), user: userSchema }),
+});
+
+export const userLeftMessageSchema = z.object({
+  type: z.literal('user-left'),
+  data: z.object({ documentId: z.string(), user: userSchema }),
+});
+
+export const serverSyncStep1MessageSchema = z.object({
+  type: z.literal('sync-step-1'),
+  data: z.object({
+    documentId: z.string(),
+    stateVector: base64Schema,
+  }),
+});
+
+export const serverSyncStep2MessageSchema = z.object({
+  type: z.literal('sync-step-2'),
+  data: z.object({
+    documentId: z.string(),
+    update: base64Schema,
+    shouldSeed: z.boolean(),
+  }),
+});
+
+export const syncedMessageSchema = z.object({
+  type: z.literal('synced'),
+  data: z.object({
+    documentId: z.string(),
+    shouldSeed: z.boolean(),
+  }),
+});
+
+export const serverYjsUpdateMessageSchema = z.object({
+  type: z.literal('yjs-update'),
+  data: z.object({
+    documentId: z.string(),
+    update: updateSchema,
+    user: userSchema.optional(),
+  }),
+});
+
+export const serverAwarenessUpdateMessageSchema = z.object({
+  type: z.literal('awareness-update'),
+  data: z.object({
+    documentId: z.string(),
+    update: updateSchema,
+  }),
+});
+
+export const ackMessageSchema = z.object({
+  type: z.literal('ack'),
+  data: z.object({
+    documentId: z.string(),
+    seq: seqSchema,
+  }),
+});
+
+export const stateCheckResultMessageSchema = z.object({
+  type: z.literal('state-check-result'),
+  data: z.object({
+    documentId: z.string(),
+    inSync: z.boolean(),
+    divergence: z.enum(['server-missing-updates', 'checksum-mismatch']).optional(),
+    stateVector: base64Schema,
+    checksum: z.string(),
+  }),
+});
+
+export const accessRevokedMessageSchema = z.object({
+  type: z.literal('access-revoked'),
+  data: z.object({
+    documentId: z.string(),
+    reason: z.enum(['collaborator-removed', 'document-deleted', 'token-revoked']),
+    code: z.number().int(),
+  }),
+});
+
+// Held-back updates for this document were dropped; the client must sync again to catch up
+export const resyncRequiredMessageSchema = z.object({
+  type: z.literal('resync-required'),
+  data: z.object({
+    documentId: z.string(),
+    reason: z.enum(['slow-consumer']),
+  }),
+});
+
+export const pongMessageSchema = z.object({
+  type: z.literal('pong'),
+  data: z.object({ id: z.number().int().nonnegative() }),
+});
+
+export const serverMessageSchema = z.discriminatedUnion('type', [
+  connectedMessageSchema,
+  errorMessageSchema,
+  usersInDocumentMessageSchema,
+  userJoinedMessageSchema,
+  userLeftMessageSchema,
+  serverSyncStep1MessageSchema,
+  serverSyncStep2MessageSchema,
+  syncedMessageSchema,
+  serverYjsUpdateMessageSchema,
+  serverAwarenessUpdateMessageSchema,
+  ackMessageSchema,
+  stateCheckResultMessageSchema,
+  accessRevokedMessageSchema,
+  resyncRequiredMessageSchema,
+  messageChunkMessageSchema,
+  pongMessageSchema,
+]);
+
+export type ServerMessage = z.infer<typeof serverMessageSchema>;
+export type ServerMessageType = ServerMessage['type'];
+export type ServerMessageData<T extends ServerMessageType> = Extract<
+  ServerMessage,
+  { type: T }
+>['data'];
+
+/**
+ * Pick the protocol version for a connection from the one the client announced
+ */
+export const negotiateProtocolVersion = (clientVersion: string | null): number => {
+  const requested = clientVersion === null ? LEGACY_PROTOCOL_VERSION : Number(clientVersion);
+  if (!Number.isInteger(requested)) {
+    return LEGACY_PROTOCOL_VERSION;
+  }
+  return Math.min(requested, PROTOCOL_VERSION);
+};
+
+/**
+ * Describe why a client message failed validation
+ */
+export const describeProtocolError = (error: z.ZodError): string => {
+  const issue = error.issues[0];
+  if (!issue) {
+    return 'Invalid message';
+  }
+  const path = issue.path.join('.');
+  return path ? `${path}: ${issue.message}` : issue.message;
+};